@@ -354,6 +354,9 @@ async function generatePackageJson(
       "@types/node": "^24.2.1",
       typescript: "~5.9.2",
       vite: "^7.1.1",
+      // Responsive WebP images, core only loads them when present
+      imagemin: "^9.0.1",
+      "imagemin-webp": "^8.0.0",
     },
     dependencies: {},
   };
@@ -0,0 +1,33 @@
+// Minimal typings for the imagemin packages that don't ship their own
+
+declare module "imagemin" {
+  type Plugin = (input: Uint8Array) => Promise<Uint8Array>;
+
+  const imagemin: {
+    buffer(
+      data: Uint8Array,
+      options?: { plugins?: Plugin[] }
+    ): Promise<Uint8Array>;
+  };
+  export default imagemin;
+}
+
+declare module "imagemin-mozjpeg" {
+  export default function imageminMozjpeg(options?: {
+    quality?: number;
+  }): (input: Uint8Array) => Promise<Uint8Array>;
+}
+
+declare module "imagemin-webp" {
+  export default function imageminWebp(options?: {
+    quality?: number;
+    resize?: { width: number; height: number };
+  }): (input: Uint8Array) => Promise<Uint8Array>;
+}
+
+// Optional, only used when installed in the project
+declare module "imagemin-avif" {
+  export default function imageminAvif(options?: {
+    quality?: number;
+  }): (input: Uint8Array) => Promise<Uint8Array>;
+}
@@ -16,22 +16,43 @@ export {
 } from "./utils/config.js";
 
 export { 
-  processHtmlImports 
+  processHtmlImports,
+  formatImportDiagnostics,
+  resolveImportAliases
 } from "./utils/html-imports.js";
 
+export { 
+  parseFrontMatter 
+} from "./utils/front-matter.js";
+
 export { 
   scanDirectory,
-  getInputEntries
+  getInputEntries,
+  getPageAssets
 } from "./utils/file-scanner.js";
 
 // Types
 export type {
   StaticKitConfig,
   StaticKitOptions,
-  PagesPreviewOptions
+  PagesPreviewOptions,
+  ImageOptimizationOptions,
+  BuildTarget,
+  RedirectRule,
+  HeaderRule
 } from "./types.js";
 
+export type { PageFrontMatter } from "./utils/front-matter.js";
+
+export type {
+  ImportDiagnostic,
+  ImportOptions,
+  ImportAliases
+} from "./utils/html-imports.js";
+
 export type {
   SvgSpriteOptions,
+  SpriteProcessingOptions,
+  SpriteManifest,
   BuildPluginsOptions
 } from "./plugins/index.js";
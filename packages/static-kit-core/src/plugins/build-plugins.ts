@@ -2,7 +2,44 @@ import fs from "fs/promises";
 import path from "path";
 import type { Plugin } from "vite";
 import fg from "fast-glob";
-import { processHtmlImports } from "../utils/html-imports.js";
+import { renderPage } from "../utils/page-renderer.js";
+import {
+  formatImportDiagnostics,
+  resolveImportAliases,
+} from "../utils/html-imports.js";
+import type { ImportAliases, ImportDiagnostic } from "../utils/html-imports.js";
+import { getPageAssets } from "../utils/file-scanner.js";
+import { loadSiteData, scanPages } from "../utils/collections.js";
+import { isMarkdownFile } from "../utils/markdown.js";
+import { getPagePath } from "../utils/navigation.js";
+import { parseAttributes } from "../utils/template.js";
+import type { PageEntry } from "../utils/collections.js";
+import { fingerprintAssets } from "../utils/fingerprint.js";
+import { parseFrontMatter } from "../utils/front-matter.js";
+import {
+  generateRobotsTxt,
+  generateSitemap,
+  getLastModified,
+  toAbsoluteUrl,
+} from "../utils/sitemap.js";
+import {
+  generateServerConfig,
+  getPageOutputPath,
+  getPageUrlPath,
+  NOT_FOUND_PAGE,
+  redirectPage,
+} from "../utils/server-config.js";
+import {
+  getI18nConfig,
+  getLocalizedPageName,
+  loadAllMessages,
+} from "../utils/i18n.js";
+import type { PageLocale } from "../utils/i18n.js";
+import {
+  optimizeImages,
+  rewriteResponsiveImages,
+} from "../utils/image-optimizer.js";
+import type { ImageManifest } from "../utils/image-optimizer.js";
 import { normalizeBase, timeStamp } from "../utils/config.js";
 import {
   compileTypeScriptFile,
@@ -13,28 +50,232 @@ import type { StaticKitConfig } from "../types.js";
 
 export interface BuildPluginsOptions {
   config: StaticKitConfig;
+  pagesDir?: string;
+  dataDir?: string;
+  aliases?: Record<string, string>; // import prefix → directory relative to the Vite root
   publicDir?: string;
   jsDir?: string;
+  stylesEntry?: string;
+  layoutsDir?: string;
 }
 
-async function createHtaccessFile(distPath: string) {
-  await fs.writeFile(
-    path.join(distPath, ".htaccess"),
-    "DirectoryIndex index.html\nRewriteEngine On\nRewriteCond %{REQUEST_FILENAME} !-f\nRewriteCond %{REQUEST_FILENAME} !-d\nRewriteRule ^([^.]+)$ $1.html [L]"
+// Marks tags written by the author so they can be told apart from Vite's
+const AUTHOR_TAG_ATTR = "data-static-kit-author";
+// Opt-out attribute for local tags that must be kept exactly as written
+const KEEP_TAG_ATTR = "data-static-kit-keep";
+
+/**
+ * Whether Vite should bundle a script or stylesheet URL written in a page
+ * External URLs, template expressions and the statically copied public,
+ * images and fonts paths stay as written
+ */
+function isBundledSource(url: string): boolean {
+  return (
+    !url.includes("{{") &&
+    !/^(?:[a-z][a-z\d+.-]*:|\/\/|\/(?:public|images|fonts)\/)/i.test(url)
   );
 }
 
+/**
+ * Mark author-written <script src> and <link> tags that Vite shouldn't bundle
+ * and ask Vite to leave them untouched, local module sources are bundled
+ */
+function markAuthorTags(html: string): string {
+  return html.replace(
+    /<(script\b[^>]*\bsrc=[^>]*|link\b[^>]*?)(\s*\/?)>/gi,
+    (tag, attributes: string, selfClosing: string) => {
+      if (tag.includes(AUTHOR_TAG_ATTR)) return tag;
+      const { src, href } = parseAttributes(attributes.replace(/^\w+/, ""));
+      const url = src ?? href;
+      if (
+        !tag.includes(KEEP_TAG_ATTR) &&
+        typeof url === "string" &&
+        isBundledSource(url)
+      ) {
+        return tag;
+      }
+      const viteIgnore = /\bvite-ignore\b/.test(attributes)
+        ? ""
+        : " vite-ignore";
+      return `<${attributes}${viteIgnore} ${AUTHOR_TAG_ATTR}${selfClosing}>`;
+    }
+  );
+}
+
+interface ViteTag {
+  tag: string;
+  url: string; // as Vite wrote it, relative to the page entry
+  file: string; // relative to the output directory, e.g. "public/about.js"
+}
+
+/**
+ * Take the tags Vite injected for a page's bundled scripts and stylesheets
+ * out of the page, so they can be linked from wherever the page is written
+ * Author tags Vite left alone stay in place, without the marker attributes
+ */
+function extractViteTags(
+  html: string,
+  htmlFile: string
+): { content: string; tags: ViteTag[] } {
+  const tags: ViteTag[] = [];
+  const content = html
+    .replace(
+      /<link\b[^>]*\brel=["']?(?:stylesheet|modulepreload)\b[^>]*>|<script\b[^>]*\bsrc=[^>]*><\/script>/gi,
+      (tag) => {
+        if (tag.includes(AUTHOR_TAG_ATTR)) return tag;
+        const { src, href } = parseAttributes(
+          tag.replace(/^<\w+|\/?>(?:<\/script>)?$/g, "")
+        );
+        const url = src ?? href;
+        if (typeof url !== "string") return tag;
+
+        tags.push({
+          tag,
+          url,
+          file: url.startsWith("/")
+            ? url.slice(1)
+            : path.posix.join(path.posix.dirname(htmlFile), url),
+        });
+        return "";
+      }
+    )
+    .replace(
+      new RegExp(
+        `\\s+(?:${AUTHOR_TAG_ATTR}|${KEEP_TAG_ATTR})(?:=""|='')?`,
+        "g"
+      ),
+      ""
+    );
+
+  return { content, tags };
+}
+
 export function buildPlugins(options: BuildPluginsOptions): Plugin[] {
-  const { config, publicDir = "public", jsDir = "src/js" } = options;
+  const {
+    config,
+    pagesDir = "src/pages",
+    dataDir = "src/data",
+    aliases,
+    publicDir = "public",
+    jsDir = "src/js",
+    stylesEntry = "src/styles/main.scss",
+    layoutsDir = "src/layouts",
+  } = options;
   const normalizedBase = normalizeBase(config.build?.base);
+  const imageOptions = config.build?.images;
+  const fingerprint = config.build?.fingerprint || false;
+  const target = config.build?.target || "apache";
+  const i18n = getI18nConfig(config);
+
+  // Every page is built once per locale (`cs/about`), the 404 page is shared
+  // and rendered in the default locale
+  const getPageVariants = (pageName: string) =>
+    i18n && pageName !== NOT_FOUND_PAGE
+      ? i18n.locales.map((locale) => ({
+          locale,
+          outputName: getLocalizedPageName(pageName, locale),
+        }))
+      : [{ locale: i18n?.defaultLocale, outputName: pageName }];
+
+  // Pages are scanned once per build and shared by the plugins below
+  let pagesScan: Promise<PageEntry[]> | null = null;
+  const getPages = () => (pagesScan ??= scanPages(pagesDir, dataDir));
+
+  // Failed imports of all pages, reported once the build is written
+  let importDiagnostics: ImportDiagnostic[] = [];
+  // Alias directories, resolved once the Vite root is known
+  let importAliases: ImportAliases = {};
+  // Vite's env (`MODE` and prefixed variables), `env` in templates
+  let templateEnv: Record<string, unknown> = {};
+
+  // writeBundle hooks run in parallel, HTML processing waits for the images
+  let imagesReady: Promise<ImageManifest> = Promise.resolve({});
 
   return [
-    // Create .htaccess file
+    // Protect author-written tags from Vite's HTML processing
     {
-      name: "create-htaccess-file",
+      name: "mark-author-tags",
       apply: "build",
+      transformIndexHtml: {
+        order: "pre",
+        handler: (html) => markAuthorTags(html),
+      },
+    },
+    // Create server config for the build target (.htaccess, nginx.conf, ...)
+    {
+      name: "create-server-config",
+      apply: "build",
+      buildStart: () => {
+        pagesScan = null;
+      },
       writeBundle: async () => {
-        await createHtaccessFile("dist");
+        const pages = (await getPages()).flatMap((page) =>
+          getPageVariants(page.name).map(({ outputName }) => outputName)
+        );
+        const files = generateServerConfig({
+          target,
+          pages,
+          redirects: config.redirects,
+          headers: config.headers,
+        });
+
+        // The site root sends visitors on to the default locale
+        if (i18n) {
+          if (files["index.html"]) {
+            console.warn(
+              "⚠️  Redirect from / would replace the redirect to the default locale, skipping it"
+            );
+          }
+          files["index.html"] = redirectPage(`${i18n.defaultLocale}/`);
+        }
+
+        for (const [file, content] of Object.entries(files)) {
+          const filePath = path.join("dist", file);
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(filePath, `${content}\n`);
+        }
+      },
+    },
+    // Create sitemap.xml and robots.txt when the site URL is known
+    {
+      name: "create-sitemap",
+      apply: "build",
+      writeBundle: async () => {
+        const siteUrl = config.site?.url;
+        if (!siteUrl) return;
+
+        try {
+          const pages = await getPages();
+          const entries = [];
+
+          for (const { name: pageName, file } of pages) {
+            const filePath = path.join(pagesDir, file);
+            const { data } = parseFrontMatter(
+              await fs.readFile(filePath, "utf-8")
+            );
+
+            // Pages opt out with `sitemap: false` in their front matter
+            if (pageName === NOT_FOUND_PAGE || data.sitemap === false) {
+              continue;
+            }
+
+            const lastmod = await getLastModified(filePath);
+            for (const { outputName } of getPageVariants(pageName)) {
+              entries.push({
+                url: toAbsoluteUrl(siteUrl, getPageUrlPath(outputName, target)),
+                lastmod,
+              });
+            }
+          }
+
+          await fs.mkdir("dist", { recursive: true });
+          await fs.writeFile("dist/sitemap.xml", generateSitemap(entries));
+          await fs.writeFile("dist/robots.txt", generateRobotsTxt(siteUrl));
+
+          console.log(`🗺️  Generated sitemap with ${entries.length} pages`);
+        } catch (error) {
+          console.warn("Could not create sitemap:", error);
+        }
       },
     },
     // Copy static assets
@@ -112,48 +353,56 @@ export function buildPlugins(options: BuildPluginsOptions): Plugin[] {
         }
       },
     },
-    // Copy images directory
+    // Optimize images directory
     {
-      name: "copy-images-directory",
+      name: "optimize-images-directory",
       apply: "build",
       writeBundle: async () => {
-        try {
-          const srcImagesPath = path.resolve("src/images");
-          const destImagesPath = path.resolve(`dist/${normalizedBase}images`);
+        const srcImagesPath = path.resolve("src/images");
+        const destImagesPath = path.resolve(`dist/${normalizedBase}images`);
 
-          // Check if images directory exists
+        imagesReady = (async (): Promise<ImageManifest> => {
           try {
-            await fs.access(srcImagesPath);
-          } catch {
-            // Images directory doesn't exist, skip silently
-            return;
-          }
-
-          // Create dist/images directory
-          await fs.mkdir(destImagesPath, { recursive: true });
+            // Check if images directory exists
+            try {
+              await fs.access(srcImagesPath);
+            } catch {
+              // Images directory doesn't exist, skip silently
+              return {};
+            }
 
-          // Copy all files from src/images to dist/public/images using fast-glob
-          const imageFiles = await fg("**/*", {
-            cwd: srcImagesPath,
-            onlyFiles: true,
-            dot: true,
-          });
+            if (imageOptions === false) {
+              // Copy all files from src/images to dist/public/images as they are
+              const imageFiles = await fg("**/*", {
+                cwd: srcImagesPath,
+                onlyFiles: true,
+                dot: true,
+              });
+
+              for (const file of imageFiles) {
+                const destPath = path.join(destImagesPath, file);
+                await fs.mkdir(path.dirname(destPath), { recursive: true });
+                await fs.copyFile(path.join(srcImagesPath, file), destPath);
+              }
 
-          for (const file of imageFiles) {
-            const srcPath = path.join(srcImagesPath, file);
-            const destPath = path.join(destImagesPath, file);
+              console.log(
+                `🖼️  Copied ${imageFiles.length} image files to dist/images`
+              );
+              return {};
+            }
 
-            // Ensure destination directory exists
-            await fs.mkdir(path.dirname(destPath), { recursive: true });
-            await fs.copyFile(srcPath, destPath);
+            return await optimizeImages(
+              srcImagesPath,
+              destImagesPath,
+              imageOptions
+            );
+          } catch (error) {
+            console.warn("Could not process images directory:", error);
+            return {};
           }
+        })();
 
-          console.log(
-            `🖼️  Copied ${imageFiles.length} image files to dist/images`
-          );
-        } catch (error) {
-          console.warn("Could not copy images directory:", error);
-        }
+        await imagesReady;
       },
     },
     // Copy and compile JS/TS files without bundling
@@ -208,8 +457,18 @@ export function buildPlugins(options: BuildPluginsOptions): Plugin[] {
     {
       name: "html-processor",
       apply: "build",
+      configResolved: (resolvedConfig) => {
+        importAliases = resolveImportAliases(resolvedConfig.root, aliases);
+        templateEnv = resolvedConfig.env;
+      },
+      buildStart: () => {
+        importDiagnostics = [];
+      },
       writeBundle: async () => {
         const distPath = path.resolve("dist");
+        // One cache-busting version for every page of the build, content
+        // hashes are added instead once all assets are written
+        const version = fingerprint ? undefined : timeStamp();
 
         // Find all HTML files in the dist directory using fast-glob
         const findHtmlFiles = async (dir: string): Promise<string[]> => {
@@ -225,75 +484,176 @@ export function buildPlugins(options: BuildPluginsOptions): Plugin[] {
 
         try {
           const htmlFiles = await findHtmlFiles(distPath);
+          const imageManifest = await imagesReady;
+          const messages = i18n ? await loadAllMessages(i18n) : {};
+          const pageEntries = await getPages();
+          const siteData = await loadSiteData(dataDir);
+          if (i18n && !config.site?.url) {
+            console.warn(
+              "⚠️  hreflang alternates need absolute URLs, set site.url to add them"
+            );
+          }
 
-          for (const htmlFile of htmlFiles) {
-            const fullPath = path.join(distPath, htmlFile);
-
-            // Check if this is a file that should be moved (in src/pages structure)
-            if (htmlFile.startsWith("src/pages/")) {
-              const cleanFileName = htmlFile.replace(/^src\/pages\//, "");
-              const newPath = path.join(distPath, cleanFileName);
-
-              // Read the file, process it, and write to new location
-              const content = await fs.readFile(fullPath, "utf-8");
-              const sourceDir = path.dirname(
-                path.resolve("src/pages", cleanFileName)
-              );
+          // Links are relative to the page like asset paths, alternate URLs
+          // become absolute once the site URL is known, as hreflang requires
+          // Without it they only feed the locale switcher
+          const getPageLocale = (
+            locale: string,
+            pageName: string,
+            relativePath: string
+          ): PageLocale => {
+            const siteUrl = config.site?.url;
+            const toHref = (urlPath: string) =>
+              pageName === NOT_FOUND_PAGE
+                ? urlPath
+                : `${relativePath}${urlPath.slice(1)}`;
+            const alternates: Record<string, string> = {};
+            if (pageName !== NOT_FOUND_PAGE) {
+              for (const code of i18n?.locales ?? []) {
+                const urlPath = getPageUrlPath(
+                  getLocalizedPageName(pageName, code),
+                  target
+                );
+                alternates[code] = siteUrl
+                  ? toAbsoluteUrl(siteUrl, urlPath)
+                  : toHref(urlPath);
+              }
+            }
 
-              const processedContent = await processHtmlImports(
-                content,
-                sourceDir
+            return {
+              locale,
+              messages: messages[locale],
+              fallbackMessages: i18n ? messages[i18n.defaultLocale] : undefined,
+              defaultLocale: i18n?.defaultLocale ?? locale,
+              alternates,
+              localePath: (urlPath) => toHref(`/${locale}${urlPath}`),
+            };
+          };
+
+          // Render a page file in every locale, collection templates once
+          // per item of their collection
+          const writePage = async (
+            file: string,
+            content: string,
+            viteTags: ViteTag[] = []
+          ) => {
+            const pageName = file.replace(/\.(html|md)$/, "");
+            const sourceDir = path.dirname(path.resolve(pagesDir, file));
+            const pageAssets = getPageAssets(pageName, jsDir, stylesEntry);
+
+            const variants = pageEntries
+              .filter((page) => page.file === file)
+              .flatMap((page) =>
+                getPageVariants(page.name).map((variant) => ({
+                  ...variant,
+                  page,
+                }))
               );
 
-              // Remove any existing CSS and JS links that Vite injected
-              const cleanedContent = processedContent
-                .replace(/<link[^>]*rel=["']stylesheet["'][^>]*>/g, "")
-                .replace(/<script[^>]*src=[^>]*><\/script>/g, "")
-                .replace(/<use href=\"\/sprite.svg/g, () => {
-                  return `<use href=\"${normalizedBase}images/sprite.svg\?v=${timeStamp()}`;
-                })
-                // Normalize asset paths: Convert absolute paths to use configured base
-                // Transform /public/images/... → public/images/... (based on normalizedBase)
-                // Transform /images/... → public/images/... (shorthand syntax)
-                // This ensures all asset references work with the custom build structure
-                .replace(/src="\/public\//g, `src="${normalizedBase}`)
-                .replace(/href="\/public\//g, `href="${normalizedBase}`)
-                .replace(/src="\/images\//g, `src="${normalizedBase}images/`)
-                .replace(/href="\/images\//g, `href="${normalizedBase}images/`)
-                .replace(/src="\/fonts\//g, `src="${normalizedBase}fonts/`)
-                .replace(/href="\/fonts\//g, `href="${normalizedBase}fonts/`)
-                .trim();
+            for (const { locale, outputName, page } of variants) {
+              const outputFileName = getPageOutputPath(outputName, target);
+              const newPath = path.join(distPath, outputFileName);
 
               // Calculate asset paths based on page depth and base config
-              const pathSegments = cleanFileName.split("/");
+              const pathSegments = outputFileName.split("/");
               const depth = pathSegments.length - 1;
 
               // For relative paths, go up directories then into configured base
+              // The 404 page is served for any URL, so it needs root paths
               const relativePath = depth > 0 ? "../".repeat(depth) : "";
+              const assetBase =
+                pageName === NOT_FOUND_PAGE
+                  ? `/${normalizedBase}`
+                  : `${relativePath}${normalizedBase}`;
+              const rootPath = pageName === NOT_FOUND_PAGE ? "/" : relativePath;
+
+              const versionQuery = version ? `?v=${version}` : "";
+
+              const stylesPaths = [`${assetBase}css/styles.css${versionQuery}`];
+              const jsPaths = [`${assetBase}js/index.js${versionQuery}`];
+
+              // Link page-specific entries only into the page they belong to
+              if (pageAssets.style) {
+                stylesPaths.push(
+                  `${assetBase}css/pages/${pageName}.css${versionQuery}`
+                );
+              }
+              if (pageAssets.script) {
+                jsPaths.push(
+                  `${assetBase}js/pages/${pageName}.js${versionQuery}`
+                );
+              }
 
-              const stylesPath = `${normalizedBase}css/styles.css?v=${timeStamp()}`;
-              const jsPath = `${normalizedBase}js/index.js?v=${timeStamp()}`;
-
-              // Create full HTML with correct paths
-              const fullHtml = `<!DOCTYPE html>
-<html lang="${config.templates?.language || "en"}">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${cleanFileName.replace(".html", "")}</title>
-  <link rel="stylesheet" href="${stylesPath}">
-</head>
-<body>
-${cleanedContent}
-<script type="module" src="${jsPath}"></script>
-</body>
-</html>`;
+              const fullHtml = await renderPage(content, {
+                pageName: page.name,
+                sourceDir,
+                sourceFile: path.join(pagesDir, file),
+                diagnostics: importDiagnostics,
+                aliases: importAliases,
+                layoutsDir,
+                config,
+                assetBase,
+                urlPath:
+                  pageName === NOT_FOUND_PAGE
+                    ? undefined
+                    : getPageUrlPath(outputName, target),
+                currentPath: getPagePath(page.name),
+                locale:
+                  i18n && locale
+                    ? getPageLocale(locale, page.name, relativePath)
+                    : undefined,
+                scope: page.scope,
+                globals: { data: siteData, env: templateEnv },
+                markdown: isMarkdownFile(file),
+                cacheBust: version,
+                assets: {
+                  head: [
+                    ...stylesPaths.map(
+                      (stylesPath) =>
+                        `<link rel="stylesheet" href="${stylesPath}">`
+                    ),
+                    // Scripts and stylesheets of the page that Vite bundled
+                    ...viteTags.map(({ tag, url, file }) =>
+                      tag.replace(url, () => `${rootPath}${file}`)
+                    ),
+                  ],
+                  body: jsPaths.map(
+                    (jsPath) =>
+                      `<script type="module" src="${jsPath}"></script>`
+                  ),
+                },
+              });
 
               // Create directory if needed
               await fs.mkdir(path.dirname(newPath), { recursive: true });
 
-              // Write to new location
-              await fs.writeFile(newPath, fullHtml);
+              // Write to new location, serving optimized images responsively
+              await fs.writeFile(
+                newPath,
+                rewriteResponsiveImages(
+                  fullHtml,
+                  imageManifest,
+                  `${assetBase}images/`
+                )
+              );
+            }
+          };
+
+          for (const htmlFile of htmlFiles) {
+            const fullPath = path.join(distPath, htmlFile);
+
+            // Check if this is a file that should be moved (in src/pages structure)
+            if (htmlFile.startsWith("src/pages/")) {
+              // Read the file, process it, and write to new location
+              const { content, tags } = extractViteTags(
+                await fs.readFile(fullPath, "utf-8"),
+                htmlFile
+              );
+              await writePage(
+                htmlFile.replace(/^src\/pages\//, ""),
+                content,
+                tags
+              );
 
               // Remove old file
               await fs.unlink(fullPath);
@@ -315,10 +675,70 @@ ${cleanedContent}
               }
             }
           }
+
+          // Markdown pages aren't Vite entries, render them from the source
+          const markdownFiles = new Set(
+            pageEntries.map((page) => page.file).filter(isMarkdownFile)
+          );
+          for (const file of markdownFiles) {
+            await writePage(
+              file,
+              await fs.readFile(path.join(pagesDir, file), "utf-8")
+            );
+          }
         } catch (error) {
           console.error("Error processing HTML files:", error);
         }
       },
+      closeBundle: () => {
+        // Pages rendered per locale or collection item repeat their failures
+        const seen = new Set<string>();
+        const diagnostics = importDiagnostics.filter((diagnostic) => {
+          const key = [
+            diagnostic.type,
+            diagnostic.importPath,
+            diagnostic.file,
+            diagnostic.line,
+            diagnostic.column,
+          ].join(":");
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+        if (diagnostics.length === 0) return;
+
+        console.warn(
+          `⚠️  ${diagnostics.length} failed import(s):\n${formatImportDiagnostics(diagnostics)}`
+        );
+        if (config.build?.strict) {
+          throw new Error(
+            `Build failed: ${diagnostics.length} failed import(s) (build.strict is enabled)`
+          );
+        }
+      },
+    },
+    // Fingerprint assets by content hash once everything else is written
+    {
+      name: "fingerprint-assets",
+      apply: "build",
+      closeBundle: {
+        order: "post",
+        sequential: true,
+        handler: async () => {
+          if (!fingerprint) return;
+
+          try {
+            await fingerprintAssets(
+              path.resolve("dist"),
+              normalizedBase.replace(/\/$/, ""),
+              fingerprint,
+              config.site?.url
+            );
+          } catch (error) {
+            console.warn("Could not fingerprint assets:", error);
+          }
+        },
+      },
     },
   ];
 }
@@ -2,6 +2,10 @@ export { svgSpritePlugin } from "./svg-sprite.js";
 export { pagesPreviewPlugin } from "./pages-preview.js";
 export { buildPlugins } from "./build-plugins.js";
 
-export type { SvgSpriteOptions } from "./svg-sprite.js";
+export type {
+  SvgSpriteOptions,
+  SpriteProcessingOptions,
+  SpriteManifest,
+} from "./svg-sprite.js";
 export type { PagesPreviewOptions } from "../types.js";
 export type { BuildPluginsOptions } from "./build-plugins.js";
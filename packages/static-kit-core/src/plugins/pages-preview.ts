@@ -2,18 +2,123 @@ import fs from "fs/promises";
 import path from "path";
 import type { Plugin } from "vite";
 import fg from "fast-glob";
-import { processHtmlImports } from "../utils/html-imports.js";
+import { renderPage } from "../utils/page-renderer.js";
+import {
+  formatImportDiagnostics,
+  resolveImportAliases,
+} from "../utils/html-imports.js";
+import { injectIntoDocument } from "../utils/layouts.js";
+import { parseAttributes } from "../utils/template.js";
+import { getPageUrlPath } from "../utils/server-config.js";
+import { getI18nConfig, loadAllMessages } from "../utils/i18n.js";
+import { loadSiteData, scanPages } from "../utils/collections.js";
+import { isMarkdownFile } from "../utils/markdown.js";
+import { getPagePath } from "../utils/navigation.js";
+import { getManifestPath, SPRITE_HMR_MODULE } from "./svg-sprite.js";
+import {
+  findUnknownSpriteReferences,
+  formatSpriteReferenceIssues,
+  loadSpriteIds,
+} from "../utils/sprite-references.js";
+import { getPageAssets } from "../utils/file-scanner.js";
+import type { PageAssets } from "../utils/page-renderer.js";
+import type { PageLocale } from "../utils/i18n.js";
+import type { PageEntry } from "../utils/collections.js";
+import type { ImportAliases, ImportDiagnostic } from "../utils/html-imports.js";
 import type { PagesPreviewOptions } from "../types.js";
 
+/** Client module requested by the dev pages, served virtually by this plugin */
+const PAGES_HMR_MODULE = "/static-kit-hmr.ts";
+const RESOLVED_PAGES_HMR_MODULE = "\0static-kit-hmr";
+const PAGE_UPDATE_EVENT = "static-kit:page-update";
+
+/**
+ * Update open pages when a file they are built from changes: imported
+ * components are swapped in place, anything else reloads the page and
+ * restores the scroll position
+ */
+const pagesHmrClient = `
+const SCROLL_KEY = "static-kit:scroll";
+const savedScroll = sessionStorage.getItem(SCROLL_KEY);
+if (savedScroll !== null) {
+  sessionStorage.removeItem(SCROLL_KEY);
+  window.scrollTo(0, Number(savedScroll));
+}
+
+function reload() {
+  sessionStorage.setItem(SCROLL_KEY, String(window.scrollY));
+  location.reload();
+}
+
+// Start and end comments around every import of the file, innermost first
+function findImports(doc, file) {
+  const walker = doc.createTreeWalker(doc.documentElement, NodeFilter.SHOW_COMMENT);
+  const open = [];
+  const ranges = [];
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node.data.trim();
+    if (text === "static-kit:start " + file) {
+      open.push(node);
+    } else if (text === "static-kit:end " + file && open.length > 0) {
+      ranges.push([open.pop(), node]);
+    }
+  }
+  return ranges;
+}
+
+async function swapImports(file) {
+  const response = await fetch(location.href);
+  const doc = new DOMParser().parseFromString(await response.text(), "text/html");
+
+  // Import errors are shown by the overlay, which needs a fresh page
+  if (doc.querySelector("script[data-static-kit-diagnostics]")) return false;
+  if (document.querySelector("vite-error-overlay")) return false;
+
+  const current = findImports(document, file);
+  const next = findImports(doc, file);
+  if (current.length === 0 || current.length !== next.length) return false;
+  if (current.some(([start, end]) => start.parentNode !== end.parentNode)) {
+    return false;
+  }
+
+  current.forEach(([start, end], index) => {
+    const [nextStart, nextEnd] = next[index];
+    while (start.nextSibling && start.nextSibling !== end) {
+      start.nextSibling.remove();
+    }
+    for (let node = nextStart.nextSibling; node && node !== nextEnd; node = node.nextSibling) {
+      end.before(document.importNode(node, true));
+    }
+  });
+  return true;
+}
+
+if (import.meta.hot) {
+  import.meta.hot.on("${PAGE_UPDATE_EVENT}", async ({ file, routes }) => {
+    if (!routes.includes(location.pathname.replace(/\\/$/, ""))) return;
+
+    try {
+      if (await swapImports(file)) {
+        console.log("[static-kit] updated " + file);
+        return;
+      }
+    } catch (error) {
+      console.warn("[static-kit] could not update " + file, error);
+    }
+    reload();
+  });
+}
+`;
+
 async function scanPagesDirectory(pagesDir: string): Promise<string[]> {
   try {
-    const htmlFiles = await fg("**/*.html", {
+    const htmlFiles = await fg("**/*.{html,md}", {
       cwd: pagesDir,
       onlyFiles: true,
       ignore: ["node_modules/**"],
     });
 
-    const pages = htmlFiles.map((file) => file.replace(".html", ""));
+    const pages = htmlFiles.map((file) => file.replace(/\.(html|md)$/, ""));
     return pages.sort();
   } catch (error) {
     // Directory doesn't exist or can't be read
@@ -25,7 +130,8 @@ function generatePagesIndex(
   pages: string[],
   components: string[],
   routePrefix: string,
-  componentsRoutePrefix: string
+  componentsRoutePrefix: string,
+  iconsRoutePrefix: string
 ): string {
   // Group pages by directory
   const pagesByDir: Record<string, string[]> = {};
@@ -129,6 +235,15 @@ function generatePagesIndex(
   </section>`;
   }
 
+  // Icon gallery
+  sectionsHtml += `
+  <section>
+    <h2>🎨 Icons</h2>
+    <ul>
+      <li><a href="${iconsRoutePrefix}">Icon gallery</a></li>
+    </ul>
+  </section>`;
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -180,51 +295,304 @@ function generatePagesIndex(
 </html>`;
 }
 
-function generateFullPage(
-  pageName: string,
-  pageContent: string,
-  stylesEntry: string
-): string {
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function parseSpriteSymbols(
+  sprite: string
+): Array<{ id: string; viewBox?: string }> {
+  return Array.from(sprite.matchAll(/<symbol\b([^>]*)>/g))
+    .map((match) => parseAttributes(match[1]))
+    .filter((attributes) => typeof attributes.id === "string")
+    .map((attributes) => ({
+      id: attributes.id as string,
+      viewBox:
+        typeof attributes.viewBox === "string" ? attributes.viewBox : undefined,
+    }));
+}
+
+function generateIconGallery(sprite: string, spriteUrl: string): string {
+  const symbols = parseSpriteSymbols(sprite);
+
+  const cardsHtml = symbols
+    .map(({ id, viewBox }) => {
+      const snippet = `<svg><use href="${spriteUrl}#${id}"></use></svg>`;
+      return `<li class="icon" data-id="${escapeHtml(id)}">
+        <svg class="icon__preview" aria-hidden="true"><use href="#${escapeHtml(id)}"></use></svg>
+        <strong class="icon__id">${escapeHtml(id)}</strong>
+        <span class="icon__viewbox">${escapeHtml(viewBox || "no viewBox")}</span>
+        <button type="button" data-snippet="${escapeHtml(snippet)}">Copy &lt;use&gt;</button>
+      </li>`;
+    })
+    .join("\n      ");
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${pageName}</title>
+  <title>Icon Gallery</title>
   <script type="module" src="/@vite/client"></script>
-  <link rel="icon" href="/favicon.ico">
-  <link rel="stylesheet" href="/${stylesEntry}">
-  <script type="module" src="/src/js/index.ts"></script>
-  <script type="module" src="/svg-sprite-hmr.ts"></script>
-
+  <style>
+    body {
+      font-family: system-ui, sans-serif;
+      max-width: 1100px;
+      margin: 2rem auto;
+      padding: 0 1rem;
+      line-height: 1.6;
+    }
+    h1 {
+      color: #333;
+      border-bottom: 2px solid #eee;
+      padding-bottom: 0.5rem;
+    }
+    input {
+      width: 100%;
+      padding: 0.75rem 1rem;
+      font: inherit;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+    }
+    ul {
+      list-style: none;
+      padding: 0;
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
+      gap: 1rem;
+    }
+    .icon {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.25rem;
+      padding: 1rem;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      text-align: center;
+    }
+    .icon[hidden] {
+      display: none;
+    }
+    .icon__preview {
+      width: 32px;
+      height: 32px;
+      margin-bottom: 0.5rem;
+    }
+    .icon__id {
+      word-break: break-all;
+    }
+    .icon__viewbox {
+      color: #777;
+      font-size: 0.8rem;
+    }
+    button {
+      margin-top: 0.5rem;
+      padding: 0.25rem 0.5rem;
+      font: inherit;
+      font-size: 0.8rem;
+      color: #0066cc;
+      background: none;
+      border: 1px solid #0066cc;
+      border-radius: 4px;
+      cursor: pointer;
+    }
+  </style>
 </head>
 <body>
- 
-    ${pageContent}
- 
-  <!-- <a href="/" class="back-link">← Back to all pages</a> -->
+  <h1>🎨 Icon Gallery</h1>
+  <p><a href="/">← Back to all pages</a> · <span id="icon-count">${symbols.length}</span> icons</p>
+  <input type="search" id="icon-search" placeholder="Search icons…" autofocus>
+  <div id="icon-gallery">
+    <div hidden>${sprite}</div>
+    <ul>
+      ${cardsHtml}
+    </ul>
+  </div>
+  <script type="module">
+    import { createHotContext } from "/@vite/client";
+
+    const search = document.getElementById("icon-search");
+    const gallery = document.getElementById("icon-gallery");
+
+    const filterIcons = () => {
+      const query = search.value.trim().toLowerCase();
+      for (const icon of gallery.querySelectorAll(".icon")) {
+        icon.hidden = !icon.dataset.id.toLowerCase().includes(query);
+      }
+    };
+
+    search.addEventListener("input", filterIcons);
+
+    gallery.addEventListener("click", async (event) => {
+      const button = event.target.closest("button[data-snippet]");
+      if (!button) return;
+      await navigator.clipboard.writeText(button.dataset.snippet);
+      button.textContent = "Copied!";
+      setTimeout(() => (button.textContent = "Copy <use>"), 1500);
+    });
+
+    // Swap in the regenerated sprite without losing the search query
+    const hot = createHotContext("/icon-gallery");
+    hot.on("svg-sprite-updated", async () => {
+      const response = await fetch(location.pathname);
+      const html = await response.text();
+      const updated = new DOMParser().parseFromString(html, "text/html");
+      gallery.innerHTML = updated.getElementById("icon-gallery").innerHTML;
+      document.getElementById("icon-count").textContent =
+        updated.getElementById("icon-count").textContent;
+      filterIcons();
+    });
+  </script>
 </body>
 </html>`;
 }
 
+function generateDevAssets(
+  stylesEntry: string,
+  jsDir: string,
+  pageName?: string
+): PageAssets {
+  const pageAssets = pageName
+    ? getPageAssets(pageName, jsDir, stylesEntry)
+    : {};
+  const styles = [stylesEntry, pageAssets.style].filter(Boolean);
+  const scripts = [`${jsDir}/index.ts`, pageAssets.script].filter(Boolean);
+
+  return {
+    head: [
+      `<script type="module" src="/@vite/client"></script>`,
+      ...styles.map((style) => `<link rel="stylesheet" href="/${style}">`),
+      `<script type="module" src="${SPRITE_HMR_MODULE}"></script>`,
+      `<script type="module" src="${PAGES_HMR_MODULE}"></script>`,
+    ],
+    body: scripts.map(
+      (script) => `<script type="module" src="/${script}"></script>`
+    ),
+  };
+}
+
+/**
+ * Warn about `<use href>` references of a rendered preview to icons the
+ * sprite doesn't have, including IDs filled in from props
+ */
+async function warnUnknownSpriteReferences(
+  html: string,
+  route: string,
+  spritePath: string
+): Promise<void> {
+  const knownIds = await loadSpriteIds(getManifestPath(spritePath));
+  if (!knownIds) return;
+
+  const issues = findUnknownSpriteReferences(html, route, knownIds);
+  if (issues.length > 0) {
+    console.warn(
+      `⚠️  Found ${issues.length} unknown sprite reference(s):\n${formatSpriteReferenceIssues(issues)}`
+    );
+  }
+}
+
+/**
+ * Report failed imports in the terminal and in Vite's error overlay, which
+ * the page opens itself once the Vite client is loaded
+ */
+function withImportDiagnostics(
+  html: string,
+  diagnostics: ImportDiagnostic[]
+): string {
+  if (diagnostics.length === 0) return html;
+
+  const summary = formatImportDiagnostics(diagnostics);
+  console.warn(`⚠️  Failed imports:\n${summary}`);
+
+  const [first] = diagnostics;
+  const error = {
+    plugin: "vite-pages-preview",
+    message: `${diagnostics.length} failed import(s)\n${summary}`,
+    id: first.file,
+    loc:
+      first.file && first.line
+        ? { file: first.file, line: first.line, column: first.column }
+        : undefined,
+    stack: "",
+  };
+  const payload = JSON.stringify(error).replace(/</g, "\\u003c");
+
+  return injectIntoDocument(html, {
+    body: `<script type="module" data-static-kit-diagnostics>
+    import { ErrorOverlay } from "/@vite/client";
+    document.body.appendChild(new ErrorOverlay(${payload}));
+  </script>`,
+  });
+}
+
 export function pagesPreviewPlugin(options: PagesPreviewOptions = {}): Plugin {
   const {
     pagesDir = "src/pages",
     componentsDir = "src/components",
+    layoutsDir = "src/layouts",
+    dataDir = "src/data",
+    aliases,
     routePrefix = "/pages",
     componentsRoutePrefix = "/components",
+    iconsRoutePrefix = "/icons",
+    spritePath = "public/images/sprite.svg",
     stylesEntry = "src/styles/main.scss",
+    jsDir = "src/js",
+    config = {},
   } = options;
+  const i18n = getI18nConfig(config);
+
+  // Preview routes rendered so far, with the files each one is built from
+  const routeDependencies = new Map<string, Set<string>>();
+  // Alias directories, resolved once the Vite root is known
+  let importAliases: ImportAliases = {};
+  // Vite's env (`MODE` and prefixed variables), `env` in templates
+  let templateEnv: Record<string, unknown> = {};
 
   return {
     name: "vite-pages-preview",
     apply: "serve",
+    resolveId(id) {
+      if (id === PAGES_HMR_MODULE) {
+        return RESOLVED_PAGES_HMR_MODULE;
+      }
+    },
+    load(id) {
+      if (id === RESOLVED_PAGES_HMR_MODULE) {
+        return pagesHmrClient;
+      }
+    },
+    configResolved(resolvedConfig) {
+      importAliases = resolveImportAliases(resolvedConfig.root, aliases);
+      templateEnv = resolvedConfig.env;
+    },
     configureServer(server) {
-      // Watch the pages and components directories for changes and force browser reload
+      // Watch the pages, components and layouts directories, changes update the pages built from them
       const pagesPath = path.resolve(pagesDir);
       const componentsPath = path.resolve(componentsDir);
+      const layoutsPath = path.resolve(layoutsDir);
+      const dataPath = path.resolve(dataDir);
       server.watcher.add(pagesPath);
       server.watcher.add(componentsPath);
+      server.watcher.add(layoutsPath);
+      server.watcher.add(dataPath);
+
+      // Aliases may point outside the project, e.g. to a sibling package
+      const aliasPaths = Object.values(importAliases);
+      for (const aliasPath of aliasPaths) {
+        server.watcher.add(aliasPath);
+      }
+
+      // Translations are read per request, a changed locale file only needs a reload
+      const localesPath = i18n ? path.resolve(i18n.dir) : null;
+      if (localesPath) {
+        server.watcher.add(localesPath);
+      }
 
       const reloadBrowser = () => {
         // Force a hard refresh of the browser
@@ -240,21 +608,52 @@ export function pagesPreviewPlugin(options: PagesPreviewOptions = {}): Plugin {
 
       server.watcher.on("change", (filePath) => {
         const resolvedPath = path.resolve(filePath);
+
+        // Any page may use data and translations
         if (
-          resolvedPath.startsWith(pagesPath) ||
-          resolvedPath.startsWith(componentsPath)
+          resolvedPath.startsWith(dataPath) ||
+          (localesPath && resolvedPath.startsWith(localesPath))
         ) {
           console.log(`[pages-preview] File changed: ${filePath}`);
           reloadBrowser();
+          return;
+        }
+
+        // Only update the tabs showing a page built from the changed file
+        if (
+          resolvedPath.startsWith(pagesPath) ||
+          resolvedPath.startsWith(componentsPath) ||
+          resolvedPath.startsWith(layoutsPath) ||
+          aliasPaths.some((aliasPath) => resolvedPath.startsWith(aliasPath))
+        ) {
+          const routes = [...routeDependencies]
+            .filter(([, files]) => files.has(resolvedPath))
+            .map(([route]) => route);
+          console.log(
+            `[pages-preview] File changed: ${filePath} (${routes.length} page(s) affected)`
+          );
+
+          if (routes.length > 0) {
+            server.ws.send({
+              type: "custom",
+              event: PAGE_UPDATE_EVENT,
+              data: {
+                file: path.relative(process.cwd(), resolvedPath),
+                routes,
+              },
+            });
+          }
         }
       });
 
       server.watcher.on("add", (filePath) => {
         const resolvedPath = path.resolve(filePath);
         if (
-          (resolvedPath.startsWith(pagesPath) ||
-            resolvedPath.startsWith(componentsPath)) &&
-          filePath.endsWith(".html")
+          ((resolvedPath.startsWith(pagesPath) ||
+            resolvedPath.startsWith(componentsPath) ||
+            resolvedPath.startsWith(layoutsPath)) &&
+            /\.(html|md)$/.test(filePath)) ||
+          resolvedPath.startsWith(dataPath)
         ) {
           console.log(`[pages-preview] File added: ${filePath}`);
           reloadBrowser();
@@ -264,9 +663,11 @@ export function pagesPreviewPlugin(options: PagesPreviewOptions = {}): Plugin {
       server.watcher.on("unlink", (filePath) => {
         const resolvedPath = path.resolve(filePath);
         if (
-          (resolvedPath.startsWith(pagesPath) ||
-            resolvedPath.startsWith(componentsPath)) &&
-          filePath.endsWith(".html")
+          ((resolvedPath.startsWith(pagesPath) ||
+            resolvedPath.startsWith(componentsPath) ||
+            resolvedPath.startsWith(layoutsPath)) &&
+            /\.(html|md)$/.test(filePath)) ||
+          resolvedPath.startsWith(dataPath)
         ) {
           console.log(`[pages-preview] File deleted: ${filePath}`);
           reloadBrowser();
@@ -278,13 +679,17 @@ export function pagesPreviewPlugin(options: PagesPreviewOptions = {}): Plugin {
 
         // Handle preview index route
         if (url === `/`) {
-          const pages = await scanPagesDirectory(pagesDir);
+          // Collection pages are listed once per generated page
+          const pages = (await scanPages(pagesDir, dataDir))
+            .map((page) => page.name)
+            .sort();
           const components = await scanPagesDirectory(componentsDir);
           const indexHtml = generatePagesIndex(
             pages,
             components,
             routePrefix,
-            componentsRoutePrefix
+            componentsRoutePrefix,
+            iconsRoutePrefix
           );
 
           res.setHeader("Content-Type", "text/html");
@@ -292,31 +697,110 @@ export function pagesPreviewPlugin(options: PagesPreviewOptions = {}): Plugin {
           return;
         }
 
+        // Handle icon gallery route
+        if (url?.split("?")[0] === iconsRoutePrefix) {
+          let sprite = "";
+          try {
+            sprite = await fs.readFile(spritePath, "utf-8");
+          } catch {
+            // Sprite not generated yet (no icons), render an empty gallery
+          }
+
+          res.setHeader("Content-Type", "text/html");
+          res.end(generateIconGallery(sprite, "/sprite.svg"));
+          return;
+        }
+
         // Handle individual page routes
         if (url?.startsWith(`${routePrefix}/`) && url !== `${routePrefix}/`) {
-          const pageName = url
-            .replace(`${routePrefix}/`, "")
-            .replace(/\/$/, "");
-          const pageFile = path.join(pagesDir, `${pageName}.html`);
+          const route = url.split("?")[0].replace(/\/$/, "");
+          const pageName = route.replace(`${routePrefix}/`, "");
 
-          try {
+          // Preview another language with `?locale=cs`
+          const requestedLocale = new URLSearchParams(
+            url.split("?")[1] ?? ""
+          ).get("locale");
+          let locale: PageLocale | undefined;
+          if (i18n) {
+            const current =
+              requestedLocale && i18n.locales.includes(requestedLocale)
+                ? requestedLocale
+                : i18n.defaultLocale;
+            const messages = await loadAllMessages(i18n);
+            locale = {
+              locale: current,
+              messages: messages[current],
+              fallbackMessages: messages[i18n.defaultLocale],
+              defaultLocale: i18n.defaultLocale,
+              alternates: Object.fromEntries(
+                i18n.locales.map((code) => [code, `?locale=${code}`])
+              ),
+              // Point localized links at the preview routes, `/` → `/pages/index`
+              localePath: (urlPath) =>
+                `${routePrefix}${urlPath.replace(/\/$/, "/index")}?locale=${current}`,
+            };
+          }
+
+          // Collection pages resolve to their `[param]` template and item
+          const pageEntries = await scanPages(pagesDir, dataDir);
+          const siteData = await loadSiteData(dataDir);
+
+          const renderPageFile = async (page: PageEntry) => {
+            const name = page.name;
+            const pageFile = path.join(pagesDir, page.file);
             const rawPageContent = await fs.readFile(pageFile, "utf-8");
-            // Process HTML imports before generating full page
-            const processedPageContent = await processHtmlImports(
-              rawPageContent,
-              path.dirname(pageFile)
-            );
-            const fullPageHtml = generateFullPage(
-              pageName,
-              processedPageContent,
-              stylesEntry
-            );
+            const diagnostics: ImportDiagnostic[] = [];
+            const dependencies = new Set([path.resolve(pageFile)]);
+            const html = await renderPage(rawPageContent, {
+              pageName: name,
+              sourceDir: path.dirname(pageFile),
+              sourceFile: pageFile,
+              diagnostics,
+              dependencies,
+              importMarkers: true,
+              aliases: importAliases,
+              layoutsDir,
+              config,
+              assetBase: "/",
+              urlPath: getPageUrlPath(name, config.build?.target || "apache"),
+              currentPath: getPagePath(name),
+              locale,
+              scope: page.scope,
+              globals: { data: siteData, env: templateEnv },
+              markdown: isMarkdownFile(page.file),
+              assets: generateDevAssets(stylesEntry, jsDir, page.source),
+            });
+            routeDependencies.set(route, dependencies);
+            await warnUnknownSpriteReferences(html, route, spritePath);
+            return withImportDiagnostics(html, diagnostics);
+          };
 
-            res.setHeader("Content-Type", "text/html");
-            res.end(fullPageHtml);
-            return;
+          const page = pageEntries.find((entry) => entry.name === pageName);
+          // Serve src/pages/404.html for unknown pages, like the built site
+          const notFoundPage = pageEntries.find(
+            (entry) => entry.name === "404"
+          );
+
+          // Only missing pages fall back to 404, render errors go to the overlay
+          try {
+            if (page) {
+              res.setHeader("Content-Type", "text/html");
+              res.end(await renderPageFile(page));
+              return;
+            }
+
+            if (notFoundPage) {
+              const notFoundHtml = await renderPageFile(notFoundPage);
+
+              res.statusCode = 404;
+              res.setHeader("Content-Type", "text/html");
+              res.end(notFoundHtml);
+              return;
+            }
           } catch (error) {
-            // Page not found, continue to next middleware
+            server.ssrFixStacktrace(error as Error);
+            next(error);
+            return;
           }
         }
 
@@ -325,32 +809,48 @@ export function pagesPreviewPlugin(options: PagesPreviewOptions = {}): Plugin {
           url?.startsWith(`${componentsRoutePrefix}/`) &&
           url !== `${componentsRoutePrefix}/`
         ) {
-          const componentName = url
-            .replace(`${componentsRoutePrefix}/`, "")
-            .replace(/\/$/, "");
-          const componentFile = path.join(
+          const route = url.split("?")[0].replace(/\/$/, "");
+          const componentName = route.replace(`${componentsRoutePrefix}/`, "");
+          // Markdown partials preview like HTML components
+          const htmlComponentFile = path.join(
             componentsDir,
             `${componentName}.html`
           );
+          const componentFile = await fs.access(htmlComponentFile).then(
+            () => htmlComponentFile,
+            () => path.join(componentsDir, `${componentName}.md`)
+          );
 
           try {
             const rawComponentContent = await fs.readFile(
               componentFile,
               "utf-8"
             );
-            // Process HTML imports before generating full page
-            const processedComponentContent = await processHtmlImports(
-              rawComponentContent,
-              path.dirname(componentFile)
-            );
-            const fullPageHtml = generateFullPage(
-              `component: ${componentName}`,
-              processedComponentContent,
-              stylesEntry
-            );
+            const diagnostics: ImportDiagnostic[] = [];
+            const dependencies = new Set([path.resolve(componentFile)]);
+            const siteData = await loadSiteData(dataDir);
+            const fullPageHtml = await renderPage(rawComponentContent, {
+              pageName: `component: ${componentName}`,
+              sourceDir: path.dirname(componentFile),
+              sourceFile: componentFile,
+              diagnostics,
+              dependencies,
+              importMarkers: true,
+              aliases: importAliases,
+              layoutsDir,
+              config,
+              assetBase: "/",
+              assets: generateDevAssets(stylesEntry, jsDir),
+              markdown: isMarkdownFile(componentFile),
+              globals: { data: siteData, env: templateEnv },
+              useLayout: false,
+            });
+            routeDependencies.set(route, dependencies);
+
+            await warnUnknownSpriteReferences(fullPageHtml, route, spritePath);
 
             res.setHeader("Content-Type", "text/html");
-            res.end(fullPageHtml);
+            res.end(withImportDiagnostics(fullPageHtml, diagnostics));
             return;
           } catch (error) {
             // Component not found, continue to next middleware
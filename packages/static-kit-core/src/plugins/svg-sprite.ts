@@ -3,51 +3,289 @@ import path from "path";
 import type { Plugin } from "vite";
 import { optimize } from "svgo";
 import { scanDirectory } from "../utils/file-scanner.js";
+import { parseAttributes } from "../utils/template.js";
+import {
+  formatSpriteReferenceIssues,
+  validateSpriteReferences,
+} from "../utils/sprite-references.js";
+import type { SpriteReferenceIssue } from "../utils/sprite-references.js";
 
-export interface SvgSpriteOptions {
+type SvgoConfig = NonNullable<Parameters<typeof optimize>[1]>;
+
+export interface SpriteProcessingOptions {
+  svgo?: SvgoConfig; // replaces the default SVGO config, IDs are still prefixed per symbol
+  currentColor?: boolean; // rewrite single-colour icons to currentColor
+  multiColorDirs?: string[]; // icon folders never rewritten to currentColor
+}
+
+export interface SvgSpriteOptions extends SpriteProcessingOptions {
   iconsDir?: string;
   outputPath?: string;
   publicPath?: string;
+  manifestPath?: string; // defaults to the sprite path with a .json extension
+  outDir?: string; // build output whose rendered pages are checked for unknown icon IDs
+  strict?: boolean; // fail the build on unknown icon IDs
+}
+
+export interface SpriteManifest {
+  icons: Record<string, { file: string; viewBox?: string }>;
+}
+
+/** Client module requested by the dev pages, served virtually by the dev plugin */
+export const SPRITE_HMR_MODULE = "/svg-sprite-hmr.ts";
+const RESOLVED_SPRITE_HMR_MODULE = "\0svg-sprite-hmr";
+
+/**
+ * Cache-bust every sprite `<use>` reference when the sprite is regenerated,
+ * so browsers refetch it without a full page reload
+ */
+const spriteHmrClient = `
+if (import.meta.hot) {
+  import.meta.hot.on("svg-sprite-updated", ({ timestamp }) => {
+    for (const use of document.querySelectorAll("use")) {
+      for (const name of ["href", "xlink:href"]) {
+        const href = use.getAttribute(name);
+        if (!href || !href.includes("sprite.svg")) continue;
+
+        const [url, hash = ""] = href.split("#");
+        const [pathname, query = ""] = url.split("?");
+        const params = new URLSearchParams(query);
+        params.set("v", String(timestamp));
+
+        use.setAttribute(name, pathname + "?" + params + (hash && "#" + hash));
+      }
+    }
+    console.log("[static-kit] svg sprite updated");
+  });
+}
+`;
+
+/**
+ * Derive a sprite ID from an icon path relative to the icons directory
+ * Folders become a namespace: ui/arrow.svg → ui-arrow
+ */
+export function getIconId(file: string): string {
+  return file.replace(/\.svg$/, "").split(/[\\/]/).join("-");
+}
+
+export function getManifestPath(outputPath: string): string {
+  return outputPath.replace(/\.svg$/, "") + ".json";
+}
+
+const defaultSvgoConfig: SvgoConfig = {
+  plugins: [
+    {
+      name: "removeAttrs",
+      params: { attrs: "data-name" },
+    },
+  ],
+};
+
+/**
+ * Run SVGO with the user config and prefix every ID (gradients, masks,
+ * clip paths…) with the icon ID so symbols can't collide inside the sprite
+ */
+function optimizeIcon(
+  svgContent: string,
+  filePath: string,
+  iconId: string,
+  svgo: SvgoConfig = defaultSvgoConfig
+): string {
+  return optimize(svgContent, {
+    ...svgo,
+    path: filePath,
+    plugins: [
+      ...(svgo.plugins ?? ["preset-default"]),
+      {
+        name: "prefixIds",
+        params: { prefix: iconId, delim: "__", prefixClassNames: false },
+      },
+    ],
+  }).data;
+}
+
+const neutralColors = new Set([
+  "none",
+  "currentcolor",
+  "transparent",
+  "inherit",
+]);
+
+// Root `<svg>` attributes that style the whole icon and move to its `<symbol>`
+const presentationAttributes = new Set([
+  "color",
+  "fill",
+  "fill-opacity",
+  "fill-rule",
+  "clip-rule",
+  "opacity",
+  "stroke",
+  "stroke-dasharray",
+  "stroke-dashoffset",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "stroke-miterlimit",
+  "stroke-opacity",
+  "stroke-width",
+]);
+
+// Named colours icon editors commonly write, as hex
+const namedColors: Record<string, string> = {
+  black: "#000000",
+  white: "#ffffff",
+  red: "#ff0000",
+  lime: "#00ff00",
+  green: "#008000",
+  blue: "#0000ff",
+  yellow: "#ffff00",
+  cyan: "#00ffff",
+  aqua: "#00ffff",
+  magenta: "#ff00ff",
+  fuchsia: "#ff00ff",
+  gray: "#808080",
+  grey: "#808080",
+  silver: "#c0c0c0",
+  maroon: "#800000",
+  olive: "#808000",
+  navy: "#000080",
+  purple: "#800080",
+  teal: "#008080",
+  orange: "#ffa500",
+};
+
+/**
+ * Normalize a colour so different spellings of it compare equal,
+ * e.g. `#000`, `#000000`, `black` and `rgb(0, 0, 0)`
+ */
+function normalizeColor(value: string): string {
+  const color = value.trim().toLowerCase();
+
+  const shortHex = /^#([\da-f])([\da-f])([\da-f])$/.exec(color);
+  if (shortHex) {
+    return `#${shortHex[1]}${shortHex[1]}${shortHex[2]}${shortHex[2]}${shortHex[3]}${shortHex[3]}`;
+  }
+
+  const rgb = /^rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/.exec(color);
+  if (rgb) {
+    return `#${rgb
+      .slice(1)
+      .map((channel) => Number(channel).toString(16).padStart(2, "0"))
+      .join("")}`;
+  }
+
+  return namedColors[color] ?? color;
+}
+
+/**
+ * Root `<svg>` presentation attributes (`fill="none"`, `stroke-width`, …) as
+ * an attribute string for the icon's `<symbol>`
+ */
+function getRootPresentationAttributes(svg: string): string {
+  const rootMatch = svg.match(/<svg\b([^>]*)>/);
+  if (!rootMatch) {
+    return "";
+  }
+
+  return Object.entries(parseAttributes(rootMatch[1]))
+    .filter(
+      ([name, value]) =>
+        presentationAttributes.has(name) && typeof value === "string"
+    )
+    .map(([name, value]) => ` ${name}="${value}"`)
+    .join("");
+}
+
+/**
+ * Rewrite the colour of a single-colour icon to currentColor so it follows
+ * the text colour. Icons with several colours or gradients are left as they are
+ * Pass the whole symbol, so colours set on its root count too
+ */
+function applyCurrentColor(content: string): string {
+  const attributeRegex = /\b(fill|stroke)=(["'])([^"']*)\2/g;
+  const styleRegex = /\b(fill|stroke)\s*:\s*([^;"']+)/g;
+
+  if (content.includes("url(")) {
+    return content;
+  }
+
+  const colors = new Set<string>();
+  for (const match of content.matchAll(attributeRegex)) {
+    colors.add(normalizeColor(match[3]));
+  }
+  for (const match of content.matchAll(styleRegex)) {
+    colors.add(normalizeColor(match[2]));
+  }
+  for (const color of neutralColors) {
+    colors.delete(color);
+  }
+
+  if (colors.size !== 1) {
+    return content;
+  }
+
+  const isIconColor = (value: string) => colors.has(normalizeColor(value));
+
+  return content
+    .replace(attributeRegex, (match, property, quote, value) =>
+      isIconColor(value) ? `${property}=${quote}currentColor${quote}` : match
+    )
+    .replace(styleRegex, (match, property, value) =>
+      isIconColor(value) ? `${property}:currentColor` : match
+    );
 }
 
-async function generateSvgSprite(iconsDir: string, outputPath: string) {
-  const svgFiles = await scanDirectory(iconsDir, [".svg"]);
+async function generateSvgSprite(
+  iconsDir: string,
+  outputPath: string,
+  manifestPath: string = getManifestPath(outputPath),
+  processing: SpriteProcessingOptions = {}
+): Promise<SpriteManifest | null> {
+  const { svgo, currentColor = false, multiColorDirs = ["color"] } = processing;
+  const svgFiles = (await scanDirectory(iconsDir, [".svg"])).sort();
 
   if (svgFiles.length === 0) {
-    return;
+    return null;
   }
 
   const symbols: string[] = [];
+  const manifest: SpriteManifest = { icons: {} };
 
   for (const file of svgFiles) {
     try {
       const filePath = path.join(iconsDir, file);
       const svgContent = await fs.readFile(filePath, "utf-8");
+      const iconId = getIconId(file);
 
       // Optimize with SVGO
-      const result = optimize(svgContent, {
-        plugins: [
-          {
-            name: "removeAttrs",
-            params: { attrs: "data-name" },
-          },
-        ],
-      });
+      const optimizedSvg = optimizeIcon(svgContent, filePath, iconId, svgo);
 
       // Extract the inner content of the SVG and create a symbol
-      const optimizedSvg = result.data;
       const svgMatch = optimizedSvg.match(/<svg[^>]*>([\s\S]*?)<\/svg>/);
 
       if (svgMatch) {
-        const iconName = path.basename(file, ".svg");
-        const innerContent = svgMatch[1];
+        const isMultiColor = multiColorDirs.includes(file.split(/[\\/]/)[0]);
+
+        // Two files mapping to the same ID would silently shadow each other
+        const existing = manifest.icons[iconId];
+        if (existing) {
+          console.warn(
+            `⚠️  Duplicate sprite ID "${iconId}": ${file} collides with ${existing.file}, keeping ${existing.file}`
+          );
+          continue;
+        }
 
         // Extract viewBox from the original SVG
         const viewBoxMatch = optimizedSvg.match(/viewBox="([^"]*)"/);
         const viewBox = viewBoxMatch ? ` viewBox="${viewBoxMatch[1]}"` : "";
 
-        const symbol = `<symbol id="${iconName}"${viewBox}>${innerContent}</symbol>`;
-        symbols.push(symbol);
+        // Root presentation attributes (e.g. `fill="none"` on stroke icons)
+        // still have to apply to everything inside the symbol
+        const rootAttributes = getRootPresentationAttributes(optimizedSvg);
+        const symbol = `<symbol id="${iconId}"${viewBox}${rootAttributes}>${svgMatch[1]}</symbol>`;
+        symbols.push(
+          currentColor && !isMultiColor ? applyCurrentColor(symbol) : symbol
+        );
+        manifest.icons[iconId] = { file, viewBox: viewBoxMatch?.[1] };
       }
     } catch (error) {
       console.warn(`Failed to process ${file}:`, error);
@@ -62,17 +300,46 @@ ${symbols.join("\n")}
     // Ensure the output directory exists
     await fs.mkdir(path.dirname(outputPath), { recursive: true });
     await fs.writeFile(outputPath, sprite);
+    await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+    await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
     console.log(
       `📦 Generated sprite with ${symbols.length} icons at ${outputPath}`
     );
   }
+
+  return manifest;
+}
+
+/**
+ * Warn about `<use href>` references to IDs missing from the sprite in the
+ * rendered pages of the build output
+ * The dev preview checks each page as it renders it
+ */
+async function checkSpriteReferences(
+  outDir: string,
+  manifest: SpriteManifest | null
+): Promise<SpriteReferenceIssue[]> {
+  const knownIds = new Set(Object.keys(manifest?.icons ?? {}));
+  const issues = await validateSpriteReferences(outDir, knownIds);
+
+  if (issues.length > 0) {
+    console.warn(
+      `⚠️  Found ${issues.length} unknown sprite reference(s):\n${formatSpriteReferenceIssues(issues)}`
+    );
+  }
+
+  return issues;
 }
 
 export function svgSpritePlugin(options: SvgSpriteOptions = {}): Plugin[] {
   const {
     iconsDir = "src/icons",
     outputPath = "public/images/sprite.svg",
-    publicPath = "public/"
+    publicPath = "public/",
+    manifestPath = getManifestPath(outputPath),
+    outDir = "dist",
+    strict = false,
+    ...processing
   } = options;
 
   return [
@@ -80,9 +347,19 @@ export function svgSpritePlugin(options: SvgSpriteOptions = {}): Plugin[] {
     {
       name: "svg-sprite-dev",
       apply: "serve",
+      resolveId(id) {
+        if (id === SPRITE_HMR_MODULE) {
+          return RESOLVED_SPRITE_HMR_MODULE;
+        }
+      },
+      load(id) {
+        if (id === RESOLVED_SPRITE_HMR_MODULE) {
+          return spriteHmrClient;
+        }
+      },
       configureServer(server) {
         // Generate sprite on server start
-        generateSvgSprite(iconsDir, outputPath);
+        generateSvgSprite(iconsDir, outputPath, manifestPath, processing);
 
         // Watch for changes in icons directory
         server.watcher.add(`${iconsDir}/**/*.svg`);
@@ -92,7 +369,12 @@ export function svgSpritePlugin(options: SvgSpriteOptions = {}): Plugin[] {
 
           if (file.includes(iconsDir) && file.endsWith(".svg")) {
             console.log("🎨 SVG file changed, regenerating sprite...");
-            await generateSvgSprite(iconsDir, outputPath);
+            await generateSvgSprite(
+              iconsDir,
+              outputPath,
+              manifestPath,
+              processing
+            );
 
             const timestamp = Date.now();
             console.log("📡 Sending HMR event with timestamp:", timestamp);
@@ -119,10 +401,28 @@ export function svgSpritePlugin(options: SvgSpriteOptions = {}): Plugin[] {
     {
       name: "svg-sprite-build",
       apply: "build",
-      buildStart() {
-        // Generate sprite at build start
-        const buildOutputPath = outputPath.replace("public/", `dist/${publicPath}`);
-        return generateSvgSprite(iconsDir, buildOutputPath);
+      async closeBundle() {
+        // Generate sprite once the bundle is written, so neither emptying the
+        // output directory nor copying public/ can replace it afterwards
+        // Paths under public/ are mapped into dist, explicit paths are kept
+        const toBuildPath = (filePath: string) =>
+          filePath.startsWith("public/")
+            ? filePath.replace("public/", `dist/${publicPath}`)
+            : filePath;
+        const manifest = await generateSvgSprite(
+          iconsDir,
+          toBuildPath(outputPath),
+          toBuildPath(manifestPath),
+          processing
+        );
+
+        // Pages are written by now, so their rendered HTML is checked
+        const issues = await checkSpriteReferences(outDir, manifest);
+        if (issues.length > 0 && strict) {
+          throw new Error(
+            `Build failed: ${issues.length} unknown sprite reference(s) (build.strict is enabled)`
+          );
+        }
       },
     },
   ];
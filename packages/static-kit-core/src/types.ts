@@ -1,20 +1,73 @@
 import type { Plugin } from "vite";
+import type { SpriteProcessingOptions } from "./plugins/svg-sprite.js";
+
+export interface ImageOptimizationOptions {
+  widths?: number[]; // responsive widths, only those below the original width are generated
+  formats?: Array<"webp" | "avif">; // modern formats offered through <picture>, avif needs imagemin-avif
+  quality?: number; // 0-100
+  lossy?: boolean; // also recompress the original JPEG/PNG with mozjpeg/pngquant, off by default
+  cacheDir?: string; // where optimized images are kept between builds
+}
+
+export type BuildTarget = "apache" | "nginx" | "netlify" | "static";
+
+export interface RedirectRule {
+  from: string; // e.g. "/old-page" or "/blog/*"
+  to: string; // e.g. "/new-page" or "/news/:splat"
+  status?: 301 | 302 | 307 | 308; // defaults to 301
+}
+
+export interface HeaderRule {
+  path: string; // e.g. "/*" or "/public/*"
+  values: Record<string, string>;
+}
 
 export interface StaticKitConfig {
   build?: {
     base?: string; // e.g. "public/" or "assets/" - where built assets are served from
     output?: string; // e.g. "dist"
+    target?: BuildTarget; // server config to emit for clean URLs, "static" nests pages in folders instead
+    strict?: boolean; // fail the build on problems that are only warnings otherwise
+    images?: ImageOptimizationOptions | false; // false copies src/images as it is
+    fingerprint?: "query" | "filename" | false; // content-hash assets instead of timestamp query strings
   };
   templates?: {
     language?: string;
+    activeClass?: string; // added to `data-active-when` elements matching the page, default "active"
+  };
+  site?: {
+    url?: string; // e.g. "https://example.com", enables sitemap.xml, robots.txt and canonical URLs
+    name?: string; // og:site_name
+    titleTemplate?: string; // e.g. "%s | Brand", %s is the page title
+    description?: string; // default meta description
+    image?: string; // default Open Graph image, e.g. "/images/og.png"
+    twitter?: string; // e.g. "@brand"
+    themeColor?: string;
+    favicons?: Array<{
+      href: string;
+      rel?: string;
+      sizes?: string;
+      type?: string;
+    }>;
   };
+  i18n?: {
+    locales: string[]; // e.g. ["cs", "en"], each page is built once per locale
+    defaultLocale?: string; // defaults to the first locale
+    dir?: string; // translation files (<locale>.json), defaults to "src/locales"
+  };
+  redirects?: RedirectRule[]; // translated into the server config of build.target
+  headers?: HeaderRule[];
 }
 
 export interface StaticKitOptions {
   config?: StaticKitConfig;
   pagesDir?: string;
   componentsDir?: string;
+  layoutsDir?: string;
+  dataDir?: string; // JSON and YAML files available to templates as `data`
+  aliases?: Record<string, string>; // import prefix → directory relative to the Vite root
   iconsDir?: string;
+  svgSprite?: SpriteProcessingOptions; // SVGO config and colour handling for icons
   stylesEntry?: string;
   jsEntry?: string;
   publicDir?: string;
@@ -24,7 +77,14 @@ export interface StaticKitOptions {
 export interface PagesPreviewOptions {
   pagesDir?: string;
   componentsDir?: string;
+  layoutsDir?: string;
+  dataDir?: string;
+  aliases?: Record<string, string>;
   routePrefix?: string;
   componentsRoutePrefix?: string;
+  iconsRoutePrefix?: string;
+  spritePath?: string;
   stylesEntry?: string;
+  jsDir?: string;
+  config?: StaticKitConfig;
 }
@@ -0,0 +1,145 @@
+import fs from "fs/promises";
+import path from "path";
+import { parse } from "yaml";
+import { scanDirectory } from "./file-scanner.js";
+import { parseFrontMatter } from "./front-matter.js";
+import { resolveScopePath } from "./template.js";
+import type { TemplateScope } from "./template.js";
+
+export interface PageEntry {
+  name: string; // page name as built, e.g. "about" or "blog/hello-world"
+  source: string; // page file without extension, e.g. "blog/[slug]"
+  file: string; // page file relative to the pages directory, e.g. "about.md"
+  scope?: TemplateScope; // collection item under its alias (default `item`)
+}
+
+// `[slug]` placeholders in the file name of a collection page
+const paramRegex = /\[([\w-]+)\]/g;
+
+export function isCollectionPage(pageName: string): boolean {
+  return /\[[\w-]+\]/.test(pageName);
+}
+
+/**
+ * Load the JSON and YAML files of the data directory into one object
+ * `src/data/team.yaml` becomes `data.team`, `src/data/blog/posts.json`
+ * becomes `data.blog.posts`
+ */
+export async function loadSiteData(dataDir: string): Promise<TemplateScope> {
+  const files = await scanDirectory(dataDir, [".json", ".yaml", ".yml"]);
+  const data: TemplateScope = {};
+
+  for (const file of files.sort()) {
+    const filePath = path.join(dataDir, file);
+    try {
+      const content = await fs.readFile(filePath, "utf-8");
+      const value = file.endsWith(".json")
+        ? JSON.parse(content)
+        : parse(content);
+
+      const keys = file.replace(/\.(json|ya?ml)$/, "").split("/");
+      let target = data;
+      for (const key of keys.slice(0, -1)) {
+        if (typeof target[key] !== "object" || target[key] === null) {
+          target[key] = {};
+        }
+        target = target[key] as TemplateScope;
+      }
+      target[keys[keys.length - 1]] = value;
+    } catch (error) {
+      console.warn(`⚠️  Could not load data file ${filePath}:`, error);
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Generate one page per item of the collection a `[param]` page names in
+ * its front matter (`collection: posts`), filling the placeholders of the
+ * file name from the item (`blog/[slug]` → `blog/hello-world`)
+ */
+export function expandCollectionPage(
+  file: string,
+  source: string,
+  siteData: TemplateScope
+): PageEntry[] {
+  const pageName = file.replace(/\.(html|md)$/, "");
+  const { data } = parseFrontMatter(source);
+  if (typeof data.collection !== "string") {
+    console.warn(
+      `⚠️  ${pageName} needs a \`collection\` in its front matter to generate pages`
+    );
+    return [];
+  }
+
+  const items = resolveScopePath(siteData, data.collection);
+  if (!Array.isArray(items)) {
+    console.warn(
+      `⚠️  Collection "${data.collection}" of ${pageName} is not a list in the data directory`
+    );
+    return [];
+  }
+
+  const alias = typeof data.alias === "string" ? data.alias : "item";
+  const params = [...pageName.matchAll(paramRegex)].map(([, param]) => param);
+  const pages: PageEntry[] = [];
+
+  items.forEach((item: TemplateScope, index) => {
+    const missingParam = params.find((param) => {
+      const value = resolveScopePath(item, param);
+      return value === undefined || value === null || value === "";
+    });
+    if (missingParam) {
+      console.warn(
+        `⚠️  Item ${index} of "${data.collection}" has no "${missingParam}", skipping it for ${pageName}`
+      );
+      return;
+    }
+
+    const name = pageName.replace(paramRegex, (_match, param: string) =>
+      String(resolveScopePath(item, param))
+    );
+    if (pages.some((page) => page.name === name)) {
+      console.warn(`⚠️  Duplicate page ${name} in ${pageName}, skipping it`);
+      return;
+    }
+
+    pages.push({ name, source: pageName, file, scope: { [alias]: item } });
+  });
+
+  return pages;
+}
+
+/**
+ * Every HTML and Markdown page in `pagesDir`, with collection pages expanded
+ * to one entry per item of their collection
+ */
+export async function scanPages(
+  pagesDir: string,
+  dataDir: string
+): Promise<PageEntry[]> {
+  const files = (await scanDirectory(pagesDir, [".html", ".md"])).sort();
+  const pages: PageEntry[] = [];
+  let siteData: TemplateScope | null = null;
+
+  for (const file of files) {
+    const pageName = file.replace(/\.(html|md)$/, "");
+    if (pages.some((page) => page.name === pageName)) {
+      console.warn(
+        `⚠️  ${file} has the same name as another page, skipping it`
+      );
+      continue;
+    }
+    if (!isCollectionPage(pageName)) {
+      pages.push({ name: pageName, source: pageName, file });
+      continue;
+    }
+
+    siteData ??= await loadSiteData(dataDir);
+    const source = await fs.readFile(path.join(pagesDir, file), "utf-8");
+    pages.push(...expandCollectionPage(file, source, siteData));
+  }
+
+  return pages;
+}
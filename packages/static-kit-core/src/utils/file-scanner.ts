@@ -1,5 +1,6 @@
 import fg from "fast-glob";
 import fs from "fs";
+import path from "path";
 
 /**
  * Scan directory for files with specified extensions using fast-glob
@@ -40,10 +41,22 @@ export async function getInputEntries(
     console.warn(`⚠️  Styles entry not found: ${stylesEntry}`);
   }
 
+  // Include page-specific styles (src/styles/pages/**) as separate entries
+  const pageStylesDir = path.join(path.dirname(stylesEntry), "pages");
+  const pageStyleFiles = await scanDirectory(pageStylesDir, [".scss", ".css"]);
+  for (const file of pageStyleFiles) {
+    // Skip SCSS partials, they are only meant to be imported
+    if (path.basename(file).startsWith("_")) continue;
+    const name = file.replace(/\.(scss|css)$/, "");
+    entries[`styles/pages/${name}`] = path.join(pageStylesDir, file);
+  }
+
   // NOTE: JS files are now copied as static assets, not bundled through Vite
   // This preserves their original formatting and function names
 
   // Dynamically scan for HTML pages (including nested)
+  // Collection pages (`blog/[slug].html`) are a single entry, the build
+  // renders them once per item of their collection
   const pageFiles = await scanDirectory(pagesDir, [".html"]);
   for (const file of pageFiles) {
     const name = file.replace(".html", "");
@@ -52,3 +65,27 @@ export async function getInputEntries(
 
   return entries;
 }
+
+/**
+ * Find page-specific script and stylesheet sources for a page by convention
+ * e.g. "contact" → src/js/pages/contact.ts and src/styles/pages/contact.scss
+ */
+export function getPageAssets(
+  pageName: string,
+  jsDir: string = "src/js",
+  stylesEntry: string = "src/styles/main.scss"
+): { script?: string; style?: string } {
+  const findFirst = (candidates: string[]) =>
+    candidates.find((candidate) => fs.existsSync(candidate));
+
+  return {
+    script: findFirst([
+      path.join(jsDir, "pages", `${pageName}.ts`),
+      path.join(jsDir, "pages", `${pageName}.js`),
+    ]),
+    style: findFirst([
+      path.join(path.dirname(stylesEntry), "pages", `${pageName}.scss`),
+      path.join(path.dirname(stylesEntry), "pages", `${pageName}.css`),
+    ]),
+  };
+}
@@ -0,0 +1,246 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import fg from "fast-glob";
+
+export type FingerprintMode = "query" | "filename";
+
+/** Original → fingerprinted path, both relative to the output directory */
+export type AssetManifest = Record<string, string>;
+
+const fingerprintedFiles =
+  "**/*.{css,js,png,jpg,jpeg,gif,webp,avif,svg,ico,woff,woff2,ttf,otf,eot}";
+
+const cssUrlRegex = /url\(\s*(["']?)([^"')]+)\1\s*\)/g;
+const jsImportRegex = /(\bfrom\s*|\bimport\s*\(?\s*)(["'])(\.{1,2}\/[^"']+)\2/g;
+const htmlAttributeRegex = /\b(src|href)=(["'])([^"']*)\2/g;
+const htmlSrcsetRegex = /\bsrcset=(["'])([^"']*)\1/g;
+// Social image tags (`og:image`, `twitter:image`) carry their URL in `content`
+const htmlMetaContentRegex = /(<meta\b[^>]*?\bcontent=)(["'])([^"']*)\2/gi;
+
+function contentHash(content: string | Buffer): string {
+  return crypto.createHash("sha256").update(content).digest("hex").slice(0, 8);
+}
+
+function toHashedFileName(file: string, hash: string): string {
+  const extension = path.posix.extname(file);
+  return `${file.slice(0, -extension.length)}.${hash}${extension}`;
+}
+
+/**
+ * Resolve a URL found in `fromDir` to a path relative to the output directory
+ * Absolute URLs of the site itself (`site.url`) count as root paths
+ * Returns null for external, data and fragment-only URLs
+ */
+function resolveUrl(
+  url: string,
+  fromDir: string,
+  siteUrl?: string
+): string | null {
+  const siteOrigin = siteUrl?.replace(/\/+$/, "");
+  if (siteOrigin && url.startsWith(`${siteOrigin}/`)) {
+    return resolveUrl(url.slice(siteOrigin.length), fromDir);
+  }
+
+  const pathname = url.split(/[?#]/)[0];
+  if (!pathname || /^([a-z][a-z\d+.-]*:|\/\/)/i.test(url)) {
+    return null;
+  }
+  return pathname.startsWith("/")
+    ? path.posix.normalize(pathname.slice(1))
+    : path.posix.join(fromDir, pathname);
+}
+
+/**
+ * Point a URL at the fingerprinted asset, keeping other query parameters
+ * and the fragment (e.g. the icon ID in `sprite.svg#ui-arrow`)
+ */
+function fingerprintUrl(url: string, hash: string, mode: FingerprintMode) {
+  const [beforeFragment, fragment] = url.split("#");
+  const [pathname, query = ""] = beforeFragment.split("?");
+  const params = new URLSearchParams(query);
+
+  let newPathname = pathname;
+  params.delete("v");
+  if (mode === "filename") {
+    newPathname = toHashedFileName(pathname, hash);
+  } else {
+    params.set("v", hash);
+  }
+
+  const newQuery = params.toString();
+  return (
+    newPathname +
+    (newQuery ? `?${newQuery}` : "") +
+    (fragment !== undefined ? `#${fragment}` : "")
+  );
+}
+
+/**
+ * Call `replace` for every asset URL in a CSS, JS or HTML file
+ */
+function replaceUrls(
+  content: string,
+  type: "css" | "js" | "html",
+  replace: (url: string) => string
+): string {
+  const replaceCssUrls = (css: string) =>
+    css.replace(
+      cssUrlRegex,
+      (_match, quote: string, url: string) =>
+        `url(${quote}${replace(url)}${quote})`
+    );
+
+  if (type === "css") {
+    return replaceCssUrls(content);
+  }
+
+  if (type === "js") {
+    return content.replace(
+      jsImportRegex,
+      (_match, keyword: string, quote: string, url: string) =>
+        `${keyword}${quote}${replace(url)}${quote}`
+    );
+  }
+
+  return replaceCssUrls(
+    content
+      .replace(
+        htmlMetaContentRegex,
+        (_match, prefix: string, quote: string, url: string) =>
+          `${prefix}${quote}${replace(url)}${quote}`
+      )
+      .replace(
+        htmlAttributeRegex,
+        (_match, name: string, quote: string, url: string) =>
+          `${name}=${quote}${replace(url)}${quote}`
+      )
+      .replace(
+        htmlSrcsetRegex,
+        (_match, quote: string, srcset: string) =>
+          `srcset=${quote}${srcset
+            .split(",")
+            .map((candidate) =>
+              candidate.replace(
+                /^(\s*)(\S+)/,
+                (_m, space, url) => space + replace(url)
+              )
+            )
+            .join(",")}${quote}`
+      )
+  );
+}
+
+/**
+ * Fingerprint the assets under `assetsDir` by content hash, either as a
+ * `?v=` query string or in the file name, and rewrite the references in
+ * HTML, CSS (and JS imports when files are renamed) to match
+ *
+ * Assets are hashed after their own references are rewritten, so a changed
+ * image also changes the hash of the stylesheet that uses it
+ * `siteUrl` lets absolute links to the site, like social images, match too
+ */
+export async function fingerprintAssets(
+  outDir: string,
+  assetsDir: string,
+  mode: FingerprintMode,
+  siteUrl?: string
+): Promise<AssetManifest> {
+  const assetFiles = await fg(fingerprintedFiles, {
+    cwd: path.join(outDir, assetsDir),
+    onlyFiles: true,
+  });
+  const assets = new Set(
+    assetFiles.map((file) => path.posix.join(assetsDir, file))
+  );
+  const hashes = new Map<string, string>();
+  const visiting = new Set<string>();
+
+  const rewrite = (
+    content: string,
+    type: "css" | "js" | "html",
+    fromDir: string
+  ) =>
+    replaceUrls(content, type, (url) => {
+      const target = resolveUrl(url, fromDir, siteUrl);
+      const hash = target ? hashes.get(target) : undefined;
+      return hash ? fingerprintUrl(url, hash, mode) : url;
+    });
+
+  const fingerprint = async (file: string): Promise<void> => {
+    if (hashes.has(file) || visiting.has(file)) return;
+    visiting.add(file);
+
+    const filePath = path.join(outDir, file);
+    const fromDir = path.posix.dirname(file);
+    const type = file.endsWith(".css")
+      ? "css"
+      : file.endsWith(".js") && mode === "filename"
+        ? "js"
+        : null;
+    let content: string | Buffer = await fs.readFile(filePath);
+
+    if (type) {
+      const text = content.toString("utf-8");
+
+      // Fingerprint referenced assets first, references inside an import
+      // cycle stay as they are
+      const references: string[] = [];
+      replaceUrls(text, type, (url) => {
+        const target = resolveUrl(url, fromDir);
+        if (target && assets.has(target)) references.push(target);
+        return url;
+      });
+      for (const reference of references) {
+        await fingerprint(reference);
+      }
+
+      content = rewrite(text, type, fromDir);
+    }
+
+    const hash = contentHash(content);
+    hashes.set(file, hash);
+
+    if (mode === "filename") {
+      await fs.writeFile(
+        path.join(outDir, toHashedFileName(file, hash)),
+        content
+      );
+      await fs.unlink(filePath);
+    } else if (type) {
+      await fs.writeFile(filePath, content);
+    }
+  };
+
+  for (const file of [...assets].sort()) {
+    await fingerprint(file);
+  }
+
+  const htmlFiles = await fg("**/*.html", {
+    cwd: outDir,
+    onlyFiles: true,
+  });
+  for (const htmlFile of htmlFiles) {
+    const htmlPath = path.join(outDir, htmlFile);
+    const html = await fs.readFile(htmlPath, "utf-8");
+    await fs.writeFile(
+      htmlPath,
+      rewrite(html, "html", path.posix.dirname(htmlFile))
+    );
+  }
+
+  const manifest: AssetManifest = {};
+  for (const [file, hash] of [...hashes].sort()) {
+    manifest[file] = fingerprintUrl(file, hash, mode);
+  }
+  await fs.writeFile(
+    path.join(outDir, "asset-manifest.json"),
+    JSON.stringify(manifest, null, 2)
+  );
+
+  console.log(
+    `🔖 Fingerprinted ${hashes.size} assets (${mode}), manifest at ${path.relative(process.cwd(), path.join(outDir, "asset-manifest.json"))}`
+  );
+
+  return manifest;
+}
@@ -0,0 +1,53 @@
+import { parse } from "yaml";
+
+export interface PageFrontMatter {
+  layout?: string | false;
+  title?: string;
+  description?: string;
+  image?: string; // Open Graph image, overrides site.image
+  bodyClass?: string;
+  head?: string | string[];
+  sitemap?: boolean; // false leaves the page out of sitemap.xml
+  collection?: string; // data path a `[param]` page generates one page per item of
+  alias?: string; // name of the collection item in templates, defaults to `item`
+  [key: string]: unknown;
+}
+
+/**
+ * Split a YAML front matter block (`---` ... `---`) off the top of a page
+ * Returns empty data and the untouched source when there is no block
+ */
+export function parseFrontMatter(source: string): {
+  data: PageFrontMatter;
+  body: string;
+} {
+  const frontMatterRegex =
+    /^\s*---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+  const match = source.match(frontMatterRegex);
+
+  if (!match) {
+    return { data: {}, body: source };
+  }
+
+  const body = source.slice(match[0].length);
+
+  try {
+    const data = parse(match[1] ?? "") ?? {};
+    if (typeof data !== "object" || Array.isArray(data)) {
+      console.warn("⚠️  Front matter must be a YAML mapping, ignoring it");
+      return { data: {}, body };
+    }
+    return { data, body };
+  } catch (error) {
+    console.warn("⚠️  Could not parse front matter:", error);
+    return { data: {}, body };
+  }
+}
+
+/**
+ * Join the `head` front matter field into a single HTML string
+ */
+export function frontMatterHead(data: PageFrontMatter): string {
+  if (!data.head) return "";
+  return Array.isArray(data.head) ? data.head.join("\n  ") : data.head;
+}
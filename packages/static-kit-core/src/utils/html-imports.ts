@@ -1,127 +1,383 @@
 import fs from "fs/promises";
 import path from "path";
+import { parseAttributes, renderTemplateSource } from "./template.js";
+import { parseFrontMatter } from "./front-matter.js";
+import {
+  isMarkdownFile,
+  protectMarkdownCode,
+  renderMarkdown,
+} from "./markdown.js";
+import type { TemplateScope } from "./template.js";
+
+export interface ImportDiagnostic {
+  type: "not-found" | "circular";
+  importPath: string; // path as written in the directive
+  resolvedPath: string; // file the path resolved to
+  file?: string; // file containing the directive
+  line?: number;
+  column?: number;
+  chain: string[]; // import chain from the page down to `file`
+}
+
+/** Import prefix (`@partials/`) → directory it resolves from */
+export type ImportAliases = Record<string, string>;
+
+export interface ImportOptions {
+  file?: string; // file the HTML comes from, the start of the import chain
+  diagnostics?: ImportDiagnostic[]; // collects failures instead of warning
+  dependencies?: Set<string>; // collects every imported file
+  markers?: boolean; // wrap imported content in comments naming its file
+  aliases?: ImportAliases; // absolute alias directories, see resolveImportAliases
+  globals?: TemplateScope; // values every imported file sees, e.g. `data` and `env`
+}
+
+/**
+ * Comments around the content of an imported file, used by the dev server
+ * to swap a changed component in place
+ */
+export function importMarkers(filePath: string): [string, string] {
+  const file = path.relative(process.cwd(), filePath);
+  return [
+    `<!-- static-kit:start ${file} -->`,
+    `<!-- static-kit:end ${file} -->`,
+  ];
+}
+
+// Matches both `<!-- @slot -->` / `<!-- @slot: name -->` and `<!-- @endslot -->`
+const slotTagRegex = /<!--\s*@(end)?slot(?::\s*([\w-]+))?\s*-->/g;
+
+/**
+ * Find the `<!-- @endslot -->` that closes a slot opened right before `start`
+ */
+function findClosingSlotTag(
+  html: string,
+  start: number
+): { index: number; end: number } | null {
+  const tagRegex = new RegExp(slotTagRegex.source, "g");
+  tagRegex.lastIndex = start;
+  let depth = 1;
+
+  for (let tag = tagRegex.exec(html); tag; tag = tagRegex.exec(html)) {
+    depth += tag[1] ? -1 : 1;
+    if (depth === 0) {
+      return { index: tag.index, end: tag.index + tag[0].length };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Collect `<!-- @slot: name -->...<!-- @endslot -->` blocks that directly
+ * follow an import directive (only whitespace in between)
+ */
+function extractSlotFills(
+  html: string,
+  start: number
+): { fills: Record<string, string>; end: number } {
+  const fills: Record<string, string> = {};
+  const openerRegex = /\s*<!--\s*@slot(?::\s*([\w-]+))?\s*-->/y;
+  let position = start;
+
+  while (true) {
+    openerRegex.lastIndex = position;
+    const opener = openerRegex.exec(html);
+    if (!opener) break;
+
+    const closing = findClosingSlotTag(html, position + opener[0].length);
+    if (!closing) break;
+
+    fills[opener[1] || "default"] = html.slice(
+      position + opener[0].length,
+      closing.index
+    );
+    position = closing.end;
+  }
+
+  return { fills, end: position };
+}
+
+/**
+ * Replace slot outlets in a component with the provided fills
+ * `<!-- @slot -->` is the default outlet, `<!-- @slot: name -->` a named one,
+ * and content up to a matching `<!-- @endslot -->` is used as fallback
+ */
+function fillSlotOutlets(html: string, fills: Record<string, string>): string {
+  const outletRegex =
+    /<!--\s*@slot(?::\s*([\w-]+))?\s*-->(?:((?:(?!<!--\s*@(?:end)?slot\b)[\s\S])*?)<!--\s*@endslot\s*-->)?/g;
+
+  return html.replace(
+    outletRegex,
+    (_match, name: string | undefined, fallback: string | undefined) =>
+      fills[name || "default"] ?? fallback ?? ""
+  );
+}
+
+/**
+ * Resolve alias directories against the project root
+ * `@components/` points at `src/components` unless it's configured
+ */
+export function resolveImportAliases(
+  root: string,
+  aliases: ImportAliases = {}
+): ImportAliases {
+  const resolved: ImportAliases = {};
+  for (const [prefix, dir] of Object.entries({
+    "@components/": "src/components",
+    ...aliases,
+  })) {
+    resolved[prefix.endsWith("/") ? prefix : `${prefix}/`] = path.resolve(
+      root,
+      dir
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Resolve an import path to a file on disk
+ * Aliased paths (`@components/card.html`) resolve from the alias directory,
+ * the longest matching prefix wins, everything else is relative to the
+ * importing file
+ */
+function resolveImportPath(
+  importPath: string,
+  dir: string,
+  aliases: ImportAliases
+): string {
+  const prefix = Object.keys(aliases)
+    .filter((alias) => importPath.startsWith(alias))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (prefix) {
+    return path.resolve(aliases[prefix], importPath.slice(prefix.length));
+  }
+
+  // Standard relative path resolution
+  return path.resolve(dir, importPath);
+}
+
+/**
+ * Find the line and column of an import directive in the file it came from
+ * The directive is looked up in the file itself, so positions stay right
+ * when the HTML was rendered from Markdown or had props interpolated
+ */
+async function locateDirective(
+  file: string,
+  directive: string,
+  importPath: string
+): Promise<{ line: number; column: number } | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, "utf8");
+  } catch {
+    return null;
+  }
+
+  let index = content.indexOf(directive);
+  if (index === -1) {
+    const match = new RegExp(
+      `<!--\\s*@import:\\s*${importPath.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`
+    ).exec(content);
+    index = match ? match.index : -1;
+  }
+  if (index === -1) return null;
+
+  const lines = content.slice(0, index).split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Format diagnostics as `file:line:column message` with the import chain
+ */
+export function formatImportDiagnostics(
+  diagnostics: ImportDiagnostic[]
+): string {
+  const relative = (file: string) => path.relative(process.cwd(), file);
+
+  return diagnostics
+    .map((diagnostic) => {
+      const location = diagnostic.file
+        ? `${relative(diagnostic.file)}${
+            diagnostic.line ? `:${diagnostic.line}:${diagnostic.column}` : ""
+          } `
+        : "";
+      const message =
+        diagnostic.type === "circular"
+          ? `circular import of "${diagnostic.importPath}"`
+          : `could not find "${diagnostic.importPath}" (looked for ${relative(
+              diagnostic.resolvedPath
+            )})`;
+      const chain =
+        diagnostic.chain.length > 1
+          ? `\n    import chain: ${diagnostic.chain.map(relative).join(" → ")}`
+          : "";
+      return `  ${location}${message}${chain}`;
+    })
+    .join("\n");
+}
 
 /**
  * Process HTML imports in the given HTML string recursively
- * Supports both relative paths and @components/ prefix
+ * Supports relative paths and aliases like `@components/`
  * Handles nested imports within components
+ *
+ * Attributes on the directive are passed to the imported file as props
+ * (`{{ title }}`, `{{ title ?? "Default" }}`), and `@slot` blocks right
+ * after the directive fill the matching slot outlets of the imported file
+ *
+ * Missing and circular imports render nothing and are reported as
+ * diagnostics (or warnings when no diagnostics list is passed)
  */
 export async function processHtmlImports(
   html: string,
   dir: string,
-  processedFiles: Set<string> = new Set()
+  processedFiles: Set<string> = new Set(),
+  options: ImportOptions = {}
 ): Promise<string> {
-  const importRegex = /<!--\s*@import:\s*([\w./@-]+)\s*-->/g;
-
-  // Collect all matches first to avoid issues with changing string length
-  const matches = Array.from(html.matchAll(importRegex)) as RegExpMatchArray[];
-
-  // Process matches in reverse order to maintain correct indices
-  for (let i = matches.length - 1; i >= 0; i--) {
-    const match = matches[i];
-    let importPath = match[1];
-
-    // Handle @components/ prefix for cleaner component imports
-    if (importPath.startsWith("@components/")) {
-      // Find the project root (go up from current dir until we find src/)
-      let currentDir = dir;
-      while (
-        !currentDir.endsWith("src") &&
-        currentDir !== path.dirname(currentDir)
-      ) {
-        currentDir = path.dirname(currentDir);
-      }
-      if (currentDir.endsWith("src") || currentDir.includes("src")) {
-        const srcDir = currentDir.endsWith("src")
-          ? currentDir
-          : path.join(currentDir, "src");
-        importPath = importPath.replace("@components/", "components/");
-        const filePath = path.resolve(srcDir, importPath);
-
-        try {
-          // Check for circular imports
-          if (processedFiles.has(filePath)) {
-            const errorMessage = `<!-- Import Error: Circular import detected for "${match[1]}" 
-                   File: ${filePath}
-                   This file is already being processed in the import chain -->`;
-            html =
-              html.slice(0, match.index!) +
-              errorMessage +
-              html.slice(match.index! + match[0].length);
-            continue;
-          }
-
-          const fileContent = await fs.readFile(filePath, "utf8");
-
-          // Add this file to the processed set and recursively process its imports
-          const newProcessedFiles = new Set(processedFiles);
-          newProcessedFiles.add(filePath);
-
-          const processedFileContent = await processHtmlImports(
-            fileContent,
-            path.dirname(filePath),
-            newProcessedFiles
-          );
-
-          html =
-            html.slice(0, match.index!) +
-            processedFileContent +
-            html.slice(match.index! + match[0].length);
-          continue;
-        } catch (error) {
-          const errorMessage = `<!-- Import Error: Could not find component "${match[1]}" 
-                 Looked for: ${filePath}
-                 Check the path and make sure the file exists -->`;
-          html =
-            html.slice(0, match.index!) +
-            errorMessage +
-            html.slice(match.index! + match[0].length);
-          continue;
-        }
-      }
-    }
+  // `@verbatim` blocks are matched too, so imports inside them are kept
+  const importRegex =
+    /<!--\s*@verbatim\s*-->[\s\S]*?<!--\s*@endverbatim\s*-->|<!--\s*@import:\s*([\w./@-]+)([\s\S]*?)-->/g;
+  let output = "";
+  let cursor = 0;
 
-    // Standard relative path resolution
-    const filePath = path.resolve(dir, importPath);
-    try {
-      // Check for circular imports
-      if (processedFiles.has(filePath)) {
-        const errorMessage = `<!-- Import Error: Circular import detected for "${match[1]}" 
-               File: ${filePath}
-               This file is already being processed in the import chain -->`;
-        html =
-          html.slice(0, match.index!) +
-          errorMessage +
-          html.slice(match.index! + match[0].length);
-        continue;
+  for (
+    let match = importRegex.exec(html);
+    match;
+    match = importRegex.exec(html)
+  ) {
+    if (match[1] === undefined) continue;
+    const importPath = match[1];
+    const props = parseAttributes(match[2]);
+    const { fills, end } = extractSlotFills(
+      html,
+      match.index + match[0].length
+    );
+    const filePath = resolveImportPath(
+      importPath,
+      dir,
+      options.aliases ?? resolveImportAliases(process.cwd())
+    );
+
+    output += html.slice(cursor, match.index);
+    cursor = end;
+    importRegex.lastIndex = end;
+
+    const report = async (type: ImportDiagnostic["type"]) => {
+      const chain = [
+        ...(options.file ? [path.resolve(options.file)] : []),
+        ...processedFiles,
+      ];
+      const file = chain[chain.length - 1];
+      const location = file
+        ? await locateDirective(file, match[0], importPath)
+        : null;
+      const diagnostic: ImportDiagnostic = {
+        type,
+        importPath,
+        resolvedPath: filePath,
+        file,
+        ...location,
+        chain,
+      };
+
+      if (options.diagnostics) {
+        options.diagnostics.push(diagnostic);
+      } else {
+        console.warn(
+          `⚠️  Import error:\n${formatImportDiagnostics([diagnostic])}`
+        );
       }
+    };
 
-      const fileContent = await fs.readFile(filePath, "utf8");
+    // Check for circular imports, including a page importing itself
+    if (
+      processedFiles.has(filePath) ||
+      (options.file && path.resolve(options.file) === filePath)
+    ) {
+      await report("circular");
+      continue;
+    }
 
-      // Add this file to the processed set and recursively process its imports
-      const newProcessedFiles = new Set(processedFiles);
-      newProcessedFiles.add(filePath);
+    let fileContent: string;
+    try {
+      fileContent = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      await report("not-found");
+      continue;
+    }
+    options.dependencies?.add(filePath);
 
-      const processedFileContent = await processHtmlImports(
-        fileContent,
-        path.dirname(filePath),
-        newProcessedFiles
+    // Slot content belongs to the importing file, so render it in this context
+    const renderedFills: Record<string, string> = {};
+    for (const [name, content] of Object.entries(fills)) {
+      renderedFills[name] = await processHtmlImports(
+        content,
+        dir,
+        processedFiles,
+        options
       );
+    }
 
-      html =
-        html.slice(0, match.index!) +
-        processedFileContent +
-        html.slice(match.index! + match[0].length);
-    } catch (error) {
-      const errorMessage = `<!-- Import Error: Could not find file "${match[1]}" 
-             Looked for: ${filePath}
-             Check the path and make sure the file exists -->`;
-      html =
-        html.slice(0, match.index!) +
-        errorMessage +
-        html.slice(match.index! + match[0].length);
+    const rendered = await renderTemplate(
+      fileContent,
+      filePath,
+      props,
+      renderedFills,
+      processedFiles,
+      options
+    );
+    if (options.markers) {
+      const [start, end] = importMarkers(filePath);
+      output += `${start}${rendered}${end}`;
+    } else {
+      output += rendered;
     }
   }
 
-  return html;
+  return output + html.slice(cursor);
+}
+
+/**
+ * Render a component or layout file: evaluate its `@if` / `@each` blocks,
+ * interpolate its props, process its own imports and fill its slot outlets
+ * with already rendered content
+ * Markdown partials are rendered to HTML, their front matter provides
+ * default props
+ */
+export async function renderTemplate(
+  fileContent: string,
+  filePath: string,
+  props: TemplateScope,
+  fills: Record<string, string> = {},
+  processedFiles: Set<string> = new Set(),
+  options: ImportOptions = {}
+): Promise<string> {
+  // Add this file to the processed set and recursively process its imports
+  const newProcessedFiles = new Set(processedFiles);
+  newProcessedFiles.add(filePath);
+
+  const file = path.relative(process.cwd(), filePath);
+  let html: string;
+  if (isMarkdownFile(filePath)) {
+    const { data, body } = parseFrontMatter(fileContent);
+    const scope = { ...options.globals, ...data, ...props };
+    // Code blocks and spans keep their expressions as written
+    const code = protectMarkdownCode(body);
+    html = renderMarkdown(
+      code.restore(renderTemplateSource(code.text, scope, file))
+    );
+  } else {
+    const scope = { ...options.globals, ...props };
+    html = renderTemplateSource(fileContent, scope, file);
+  }
+
+  const processedFileContent = await processHtmlImports(
+    html,
+    path.dirname(filePath),
+    newProcessedFiles,
+    options
+  );
+
+  return fillSlotOutlets(processedFileContent, fills);
 }
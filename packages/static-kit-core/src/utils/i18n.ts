@@ -0,0 +1,149 @@
+import fs from "fs/promises";
+import path from "path";
+import { mapOutsideVerbatim, resolveScopePath } from "./template.js";
+import type { TemplateScope } from "./template.js";
+import type { StaticKitConfig } from "../types.js";
+
+export interface PageLocale {
+  locale: string;
+  messages: TemplateScope;
+  fallbackMessages?: TemplateScope; // messages of the default locale
+  alternates: Record<string, string>; // locale → URL of this page in that locale
+  defaultLocale: string;
+  localePath: (urlPath: string) => string; // prefixes a page path with the locale
+}
+
+/**
+ * Resolved i18n settings, or null when the site has a single language
+ */
+export function getI18nConfig(config: StaticKitConfig) {
+  const locales = config.i18n?.locales ?? [];
+  if (locales.length === 0) {
+    return null;
+  }
+
+  return {
+    locales,
+    defaultLocale: config.i18n?.defaultLocale ?? locales[0],
+    dir: config.i18n?.dir ?? "src/locales",
+  };
+}
+
+export type I18nConfig = NonNullable<ReturnType<typeof getI18nConfig>>;
+
+/**
+ * Read `<dir>/<locale>.json`, nested objects become dotted keys
+ */
+export async function loadMessages(
+  dir: string,
+  locale: string
+): Promise<TemplateScope> {
+  const filePath = path.join(dir, `${locale}.json`);
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8"));
+  } catch (error) {
+    console.warn(`⚠️  Could not load translations ${filePath}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Messages of every configured locale, keyed by locale
+ */
+export async function loadAllMessages(
+  i18n: I18nConfig
+): Promise<Record<string, TemplateScope>> {
+  const entries = await Promise.all(
+    i18n.locales.map(
+      async (locale) => [locale, await loadMessages(i18n.dir, locale)] as const
+    )
+  );
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Page name of a page in a locale (`about` → `cs/about`), the built site
+ * keeps every locale in its own folder
+ */
+export function getLocalizedPageName(pageName: string, locale: string) {
+  return `${locale}/${pageName}`;
+}
+
+/**
+ * Replace `{{ t "key" }}` with the translation for the page's locale and
+ * `{{ localePath "/about" }}` with the localized page URL
+ * Missing keys fall back to the default locale, then to the key itself
+ * `@verbatim` blocks are left as written
+ */
+export function translate(html: string, pageLocale: PageLocale): string {
+  const { locale, messages, fallbackMessages = {}, localePath } = pageLocale;
+
+  return mapOutsideVerbatim(html, (part) =>
+    part
+      .replace(
+        /\{\{\s*t\s+(?:"([^"]+)"|'([^']+)')\s*\}\}/g,
+        (_match, doubleQuoted?: string, singleQuoted?: string) => {
+          const key = (doubleQuoted ?? singleQuoted) as string;
+          const value =
+            resolveScopePath(messages, key) ??
+            resolveScopePath(fallbackMessages, key);
+
+          if (value === undefined || value === null) {
+            console.warn(
+              `⚠️  Missing translation "${key}" for locale ${locale}`
+            );
+            return key;
+          }
+          return String(value);
+        }
+      )
+      .replace(
+        /\{\{\s*localePath\s+(?:"([^"]*)"|'([^']*)')\s*\}\}/g,
+        (_match, doubleQuoted?: string, singleQuoted?: string) =>
+          localePath((doubleQuoted ?? singleQuoted) as string)
+      )
+  );
+}
+
+/**
+ * `<link rel="alternate" hreflang>` tags for every locale of the page
+ */
+export function renderHreflangTags(pageLocale: PageLocale): string[] {
+  const { alternates, defaultLocale } = pageLocale;
+
+  const tags = Object.entries(alternates).map(
+    ([locale, href]) =>
+      `<link rel="alternate" hreflang="${locale}" href="${href}">`
+  );
+  if (alternates[defaultLocale]) {
+    tags.push(
+      `<link rel="alternate" hreflang="x-default" href="${alternates[defaultLocale]}">`
+    );
+  }
+
+  return tags;
+}
+
+/**
+ * Replace `<!-- @locale-switcher -->` with links to the page in every locale
+ */
+export function renderLocaleSwitcher(
+  html: string,
+  pageLocale: PageLocale
+): string {
+  const { alternates, locale: currentLocale } = pageLocale;
+
+  const links = Object.entries(alternates)
+    .map(([locale, href]) => {
+      const current = locale === currentLocale ? ` aria-current="true"` : "";
+      return `<a href="${href}" hreflang="${locale}" lang="${locale}"${current}>${locale.toUpperCase()}</a>`;
+    })
+    .join("\n  ");
+
+  return mapOutsideVerbatim(html, (part) =>
+    part.replace(
+      /<!--\s*@locale-switcher\s*-->/g,
+      () => `<nav class="locale-switcher">\n  ${links}\n</nav>`
+    )
+  );
+}
@@ -0,0 +1,400 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import fg from "fast-glob";
+import { parseAttributes } from "./template.js";
+import type { ImageOptimizationOptions } from "../types.js";
+
+type ImageFormat = "webp" | "avif";
+type ImageminPlugin = (input: Uint8Array) => Promise<Uint8Array>;
+
+export interface ImageVariant {
+  format: ImageFormat;
+  width?: number;
+  file: string; // relative to the images directory
+}
+
+/** Responsive variants per source image, keyed by its path in the images directory */
+export type ImageManifest = Record<
+  string,
+  { width?: number; variants: ImageVariant[] }
+>;
+
+interface CachedImage {
+  width?: number;
+  files: string[]; // output files stored next to this entry in the cache
+  variants: ImageVariant[]; // file names relative to the source image folder
+}
+
+// Bump when the output of a cached entry changes shape
+const CACHE_VERSION = "1";
+
+const optimizableExtensions = [".jpg", ".jpeg", ".png"];
+
+/**
+ * Read the pixel width from a PNG or JPEG header
+ */
+function getImageWidth(data: Buffer): number | undefined {
+  // PNG: width is the first field of the IHDR chunk
+  if (data.subarray(1, 4).toString("ascii") === "PNG") {
+    return data.readUInt32BE(16);
+  }
+
+  // JPEG: walk the segments up to the first start-of-frame marker
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return undefined;
+      const marker = data[offset + 1];
+      const isStartOfFrame =
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isStartOfFrame) {
+        return data.readUInt16BE(offset + 7);
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Load the imagemin plugins lazily, they are optional peer dependencies
+ * Only the packages the options need are required, AVIF is skipped with a
+ * warning when `imagemin-avif` is missing
+ */
+async function loadEncoders(
+  formats: ImageFormat[],
+  quality: number,
+  lossy: boolean
+) {
+  const missing: string[] = [];
+  const load = async <T>(
+    name: string,
+    importer: () => Promise<{ default: T }>
+  ): Promise<T | undefined> => {
+    try {
+      return (await importer()).default;
+    } catch (error) {
+      const isMissing =
+        (error as NodeJS.ErrnoException).code === "ERR_MODULE_NOT_FOUND" &&
+        (error as Error).message.includes(`'${name}'`);
+      if (!isMissing) throw error;
+      missing.push(name);
+      return undefined;
+    }
+  };
+
+  const [imagemin, webp, mozjpeg, pngquant] = await Promise.all([
+    load("imagemin", () => import("imagemin")),
+    formats.includes("webp")
+      ? load("imagemin-webp", () => import("imagemin-webp"))
+      : undefined,
+    lossy
+      ? load("imagemin-mozjpeg", () => import("imagemin-mozjpeg"))
+      : undefined,
+    lossy
+      ? load("imagemin-pngquant", () => import("imagemin-pngquant"))
+      : undefined,
+  ]);
+
+  if (!imagemin || missing.length > 0) {
+    throw new Error(
+      `missing ${missing.join(", ")}, install with \`npm install -D ${missing.join(" ")}\``
+    );
+  }
+
+  let avif: ((width?: number) => ImageminPlugin) | undefined;
+  if (formats.includes("avif")) {
+    try {
+      const { default: imageminAvif } = await import("imagemin-avif");
+      avif = () => imageminAvif({ quality });
+    } catch {
+      console.warn(
+        "⚠️  AVIF output needs the imagemin-avif package, skipping AVIF images"
+      );
+    }
+  }
+
+  const encoders: Record<
+    ImageFormat,
+    ((width?: number) => ImageminPlugin) | undefined
+  > = {
+    webp:
+      webp &&
+      ((width) =>
+        webp({
+          quality,
+          ...(width ? { resize: { width, height: 0 } } : {}),
+        })),
+    avif,
+  };
+
+  return {
+    run: (data: Uint8Array, plugin: ImageminPlugin) =>
+      imagemin.buffer(data, { plugins: [plugin] }),
+    // Originals are kept byte for byte unless lossy recompression is enabled
+    original: (extension: string): ImageminPlugin | undefined =>
+      extension === ".png"
+        ? pngquant?.({
+            quality: [Math.max(0, quality / 100 - 0.2), quality / 100],
+          })
+        : mozjpeg?.({ quality }),
+    encoders,
+  };
+}
+
+/**
+ * Optimize one image into `cacheEntryDir`: the original, compressed when
+ * lossy, plus modern formats at every configured width below the original width
+ */
+async function processImage(
+  data: Buffer,
+  file: string,
+  cacheEntryDir: string,
+  encoders: Awaited<ReturnType<typeof loadEncoders>>,
+  options: Required<Pick<ImageOptimizationOptions, "widths" | "formats">>
+): Promise<CachedImage> {
+  const extension = path.extname(file).toLowerCase();
+  const name = path.basename(file, path.extname(file));
+  const width = getImageWidth(data);
+  const outputs: Array<{ file: string; data: Uint8Array }> = [];
+  const variants: CachedImage["variants"] = [];
+
+  const original = encoders.original(extension);
+  outputs.push({
+    file: path.basename(file),
+    data: original ? await encoders.run(data, original) : data,
+  });
+
+  // Smaller widths only make sense when the original width is known
+  const widths = width ? options.widths.filter((w) => w < width) : [];
+
+  for (const format of options.formats) {
+    const encoder = encoders.encoders[format];
+    if (!encoder) continue;
+
+    for (const variantWidth of [...widths, undefined]) {
+      const variantFile = variantWidth
+        ? `${name}-${variantWidth}w.${format}`
+        : `${name}.${format}`;
+      outputs.push({
+        file: variantFile,
+        data: await encoders.run(data, encoder(variantWidth)),
+      });
+      variants.push({
+        format,
+        width: variantWidth ?? width,
+        file: variantFile,
+      });
+    }
+  }
+
+  await fs.mkdir(cacheEntryDir, { recursive: true });
+  for (const output of outputs) {
+    await fs.writeFile(path.join(cacheEntryDir, output.file), output.data);
+  }
+
+  const entry: CachedImage = {
+    width,
+    files: outputs.map((output) => output.file),
+    variants,
+  };
+  await fs.writeFile(
+    path.join(cacheEntryDir, "entry.json"),
+    JSON.stringify(entry, null, 2)
+  );
+
+  return entry;
+}
+
+/**
+ * Optimize every JPEG and PNG from `srcDir` into `destDir` and copy the rest
+ * Results are cached by content and options, so unchanged images are reused
+ * Images the encoders can't handle are copied as they are
+ */
+export async function optimizeImages(
+  srcDir: string,
+  destDir: string,
+  options: ImageOptimizationOptions = {}
+): Promise<ImageManifest> {
+  const {
+    widths = [480, 960, 1600],
+    formats = ["webp"],
+    quality = 75,
+    lossy = false,
+    cacheDir = "node_modules/.cache/static-kit/images",
+  } = options;
+  const manifest: ImageManifest = {};
+
+  const files = (
+    await fg("**/*", { cwd: srcDir, onlyFiles: true, dot: true })
+  ).sort();
+  let encoders: Awaited<ReturnType<typeof loadEncoders>> | null = null;
+  let encodersUnavailable = false;
+  // Variants are named without the source extension, so `photo.jpg` and
+  // `photo.png` would both write `photo.webp`, the first one keeps the name
+  const variantSources = new Map<string, string>();
+  let optimizedCount = 0;
+  let cachedCount = 0;
+
+  const copyOriginal = async (file: string) => {
+    const destPath = path.join(destDir, file);
+    await fs.mkdir(path.dirname(destPath), { recursive: true });
+    await fs.copyFile(path.join(srcDir, file), destPath);
+  };
+
+  for (const file of files) {
+    const extension = path.extname(file).toLowerCase();
+    if (!optimizableExtensions.includes(extension)) {
+      await copyOriginal(file);
+      continue;
+    }
+
+    const variantName = file.slice(0, -extension.length);
+    const claimedBy = variantSources.get(variantName);
+    if (claimedBy) {
+      console.warn(
+        `⚠️  ${file} would overwrite the variants of ${claimedBy}, copying it without them`
+      );
+      await copyOriginal(file);
+      continue;
+    }
+    variantSources.set(variantName, file);
+
+    const data = await fs.readFile(path.join(srcDir, file));
+    const hash = crypto
+      .createHash("sha1")
+      .update(CACHE_VERSION)
+      .update(JSON.stringify({ file, widths, formats, quality, lossy }))
+      .update(data)
+      .digest("hex");
+    const cacheEntryDir = path.resolve(cacheDir, hash);
+
+    let entry: CachedImage | null = null;
+    try {
+      entry = JSON.parse(
+        await fs.readFile(path.join(cacheEntryDir, "entry.json"), "utf-8")
+      );
+      cachedCount++;
+    } catch {
+      // Not cached yet
+    }
+
+    if (!entry && encodersUnavailable) {
+      await copyOriginal(file);
+      continue;
+    }
+
+    if (!entry) {
+      try {
+        encoders ??= await loadEncoders(formats, quality, lossy);
+      } catch (error) {
+        encodersUnavailable = true;
+        console.warn(
+          "⚠️  Image optimization failed, copying images as they are:",
+          error instanceof Error ? error.message : error
+        );
+        await copyOriginal(file);
+        continue;
+      }
+
+      // A failed encode only affects its own image
+      try {
+        entry = await processImage(data, file, cacheEntryDir, encoders, {
+          widths,
+          formats,
+        });
+        optimizedCount++;
+      } catch (error) {
+        console.warn(
+          `⚠️  Could not optimize ${file}, copying it as it is:`,
+          error instanceof Error ? error.message : error
+        );
+        await copyOriginal(file);
+        continue;
+      }
+    }
+
+    const fileDir = path.dirname(file);
+    await fs.mkdir(path.join(destDir, fileDir), { recursive: true });
+    for (const output of entry.files) {
+      await fs.copyFile(
+        path.join(cacheEntryDir, output),
+        path.join(destDir, fileDir, output)
+      );
+    }
+
+    manifest[file.split(path.sep).join("/")] = {
+      width: entry.width,
+      variants: entry.variants.map((variant) => ({
+        ...variant,
+        file: path.posix.join(fileDir.split(path.sep).join("/"), variant.file),
+      })),
+    };
+  }
+
+  console.log(
+    `🖼️  Processed ${files.length} image files to ${path.relative(process.cwd(), destDir)} (${optimizedCount} optimized, ${cachedCount} from cache)`
+  );
+
+  return manifest;
+}
+
+/**
+ * Wrap `<img>` tags pointing at optimized images in a `<picture>` element
+ * with a `srcset` per modern format. The original stays as the fallback
+ * Images that already have a srcset or sit inside a `<picture>` are left alone
+ */
+export function rewriteResponsiveImages(
+  html: string,
+  manifest: ImageManifest,
+  imagesBase: string
+): string {
+  return html.replace(
+    /<img\b([^>]*)>/gi,
+    (tag, attributeSource: string, offset: number) => {
+      const attributes = parseAttributes(attributeSource);
+      const src = attributes.src;
+
+      if (
+        typeof src !== "string" ||
+        !src.startsWith(imagesBase) ||
+        attributes.srcset
+      ) {
+        return tag;
+      }
+
+      const insidePicture =
+        html.lastIndexOf("<picture", offset) >
+        html.lastIndexOf("</picture>", offset);
+      const entry = manifest[src.slice(imagesBase.length).split(/[?#]/)[0]];
+
+      if (insidePicture || !entry || entry.variants.length === 0) {
+        return tag;
+      }
+
+      const sizes =
+        typeof attributes.sizes === "string" ? attributes.sizes : "100vw";
+      const sources = (["avif", "webp"] as const)
+        .map((format) =>
+          entry.variants.filter((variant) => variant.format === format)
+        )
+        .filter((variants) => variants.length > 0)
+        .map((variants) => {
+          const srcset = variants
+            .map((variant) =>
+              variant.width
+                ? `${imagesBase}${variant.file} ${variant.width}w`
+                : `${imagesBase}${variant.file}`
+            )
+            .join(", ");
+          return `<source type="image/${variants[0].format}" srcset="${srcset}" sizes="${sizes}">`;
+        });
+
+      return `<picture>${sources.join("")}${tag}</picture>`;
+    }
+  );
+}
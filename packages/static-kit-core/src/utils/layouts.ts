@@ -0,0 +1,101 @@
+import fs from "fs/promises";
+import path from "path";
+import { renderTemplate } from "./html-imports.js";
+import { frontMatterHead } from "./front-matter.js";
+import type { PageFrontMatter } from "./front-matter.js";
+import type { TemplateScope } from "./template.js";
+import type { ImportAliases, ImportDiagnostic } from "./html-imports.js";
+
+export interface LayoutOptions {
+  layoutsDir: string;
+  pageName: string;
+  language?: string;
+  diagnostics?: ImportDiagnostic[]; // collects failed imports of the layout
+  dependencies?: Set<string>; // collects the layout and the files it imports
+  aliases?: ImportAliases; // import prefixes, see resolveImportAliases
+  globals?: TemplateScope; // values the layout and its imports see besides props
+}
+
+/**
+ * Render page content inside a layout from `layoutsDir`
+ * The layout is picked by the `layout` front matter field (default: `default`)
+ * and receives the front matter as props, the page content as its default
+ * slot and the `head` field as its `head` slot
+ *
+ * Returns null when the page has no layout, so callers can use their own shell
+ */
+export async function renderLayout(
+  content: string,
+  frontMatter: PageFrontMatter,
+  options: LayoutOptions
+): Promise<string | null> {
+  const {
+    layoutsDir,
+    pageName,
+    language = "en",
+    diagnostics,
+    dependencies,
+    aliases,
+    globals,
+  } = options;
+
+  if (frontMatter.layout === false) {
+    return null;
+  }
+
+  const layoutName = (frontMatter.layout || "default").replace(/\.html$/, "");
+  const layoutFile = path.resolve(layoutsDir, `${layoutName}.html`);
+
+  let layoutContent: string;
+  try {
+    layoutContent = await fs.readFile(layoutFile, "utf8");
+  } catch {
+    // Only complain about layouts the page asked for explicitly
+    if (frontMatter.layout) {
+      console.warn(`⚠️  Layout not found: ${layoutFile}`);
+    }
+    return null;
+  }
+  dependencies?.add(layoutFile);
+
+  return renderTemplate(
+    layoutContent,
+    layoutFile,
+    {
+      ...frontMatter,
+      title: frontMatter.title ?? pageName,
+      lang: language,
+    },
+    {
+      default: content,
+      head: frontMatterHead(frontMatter),
+    },
+    undefined,
+    { diagnostics, dependencies, aliases, globals }
+  );
+}
+
+/**
+ * Insert tags right before `</head>` and `</body>` of a full HTML document
+ * Replacer functions keep `$&` and friends in the tags literal
+ */
+export function injectIntoDocument(
+  html: string,
+  tags: { head?: string; body?: string }
+): string {
+  let result = html;
+
+  if (tags.head) {
+    result = /<\/head>/i.test(result)
+      ? result.replace(/<\/head>/i, (match) => `  ${tags.head}\n${match}`)
+      : `${tags.head}\n${result}`;
+  }
+
+  if (tags.body) {
+    result = /<\/body>/i.test(result)
+      ? result.replace(/<\/body>/i, (match) => `  ${tags.body}\n${match}`)
+      : `${result}\n${tags.body}`;
+  }
+
+  return result;
+}
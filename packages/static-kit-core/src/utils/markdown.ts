@@ -0,0 +1,87 @@
+import { Marked } from "marked";
+import { markedHighlight } from "marked-highlight";
+import hljs from "highlight.js";
+
+export function isMarkdownFile(file: string): boolean {
+  return /\.md$/i.test(file);
+}
+
+/**
+ * Turn heading text into an ID, e.g. `Příliš **žluťoučký** kůň` →
+ * `prilis-zlutoucky-kun`
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/<[^>]*>/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Swap fenced code blocks and code spans for placeholders, so `{{ }}` and
+ * directives inside them stay as written, `restore` puts the code back
+ */
+export function protectMarkdownCode(markdown: string): {
+  text: string;
+  restore: (text: string) => string;
+} {
+  const code: string[] = [];
+  const placeholder = (match: string) => `\u0000${code.push(match) - 1}\u0000`;
+
+  const text = markdown
+    .replace(
+      /^ {0,3}(`{3,}|~{3,})[^\n]*$[\s\S]*?^ {0,3}\1[`~]*[ \t]*$/gm,
+      placeholder
+    )
+    .replace(/(`+)(?:(?!\1)[\s\S])+?\1(?!`)/g, placeholder);
+
+  return {
+    text,
+    restore: (rendered) =>
+      rendered.replace(
+        /\u0000(\d+)\u0000/g,
+        (_match, index: string) => code[Number(index)]
+      ),
+  };
+}
+
+/**
+ * Render Markdown to HTML with GitHub flavoured syntax, highlighted code
+ * blocks (highlight.js classes) and linkable headings
+ * HTML in the Markdown, including `@import` and `@slot` directives, is kept
+ */
+export function renderMarkdown(markdown: string): string {
+  const usedIds = new Map<string, number>();
+
+  const marked = new Marked(
+    markedHighlight({
+      emptyLangClass: "hljs",
+      langPrefix: "hljs language-",
+      highlight(code, lang) {
+        const language = hljs.getLanguage(lang) ? lang : "plaintext";
+        return hljs.highlight(code, { language }).value;
+      },
+    }),
+    {
+      gfm: true,
+      renderer: {
+        heading({ tokens, depth, text }) {
+          // Repeated headings get numbered IDs like GitHub does
+          const slug = slugify(text) || "section";
+          const count = usedIds.get(slug) ?? 0;
+          usedIds.set(slug, count + 1);
+          const id = count > 0 ? `${slug}-${count}` : slug;
+
+          return `<h${depth} id="${id}">${this.parser.parseInline(
+            tokens
+          )} <a class="heading-anchor" href="#${id}" aria-label="Link to this section">#</a></h${depth}>\n`;
+        },
+      },
+    }
+  );
+
+  return marked.parse(markdown, { async: false });
+}
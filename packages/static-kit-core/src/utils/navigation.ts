@@ -0,0 +1,81 @@
+import { mapOutsideVerbatim } from "./template.js";
+
+/**
+ * Path of a page the way navigation links name it, regardless of locale and
+ * build target: `/` for `index`, `/about`, `/blog` for `blog/index`
+ */
+export function getPagePath(pageName: string): string {
+  return normalizePath(pageName.replace(/(^|\/)index$/, ""));
+}
+
+function normalizePath(urlPath: string): string {
+  const pathname = urlPath.replace(/[?#].*$/, "").replace(/\/+$/, "");
+  return pathname.startsWith("/") ? pathname : `/${pathname}`;
+}
+
+function addAttribute(tag: string, attribute: string): string {
+  return tag.replace(
+    /\s*(\/?)>$/,
+    (_match, selfClosing: string) => ` ${attribute}${selfClosing ? " /" : ""}>`
+  );
+}
+
+/**
+ * Whether a `data-active-when` value matches the current page
+ * `/blog/*` matches `/blog` and every page below it
+ */
+function isActivePath(pattern: string, currentPath: string): boolean {
+  if (pattern.endsWith("/*")) {
+    const section = normalizePath(pattern.slice(0, -2));
+    return (
+      currentPath === section ||
+      currentPath.startsWith(section === "/" ? "/" : `${section}/`)
+    );
+  }
+  return normalizePath(pattern) === currentPath;
+}
+
+/**
+ * Mark elements with `data-active-when="/about"` that match the current page
+ * with `aria-current="page"` and the active class, the attribute is removed
+ * `@verbatim` blocks are left as written
+ */
+export function markActiveLinks(
+  html: string,
+  currentPath: string,
+  activeClass = "active"
+): string {
+  const current = normalizePath(currentPath);
+
+  return mapOutsideVerbatim(html, (part) =>
+    part.replace(
+      /<[a-z][\w-]*\b[^>]*?\sdata-active-when\s*=\s*(?:"([^"]*)"|'([^']*)')[^>]*>/gi,
+      (tag, doubleQuoted?: string, singleQuoted?: string) => {
+        const patterns = (doubleQuoted ?? singleQuoted ?? "")
+          .split(/\s+/)
+          .filter(Boolean);
+        let result = tag.replace(
+          /\sdata-active-when\s*=\s*(?:"[^"]*"|'[^']*')/i,
+          ""
+        );
+        if (!patterns.some((pattern) => isActivePath(pattern, current))) {
+          return result;
+        }
+
+        if (!/\saria-current\s*=/i.test(result)) {
+          result = addAttribute(result, `aria-current="page"`);
+        }
+        const classRegex = /\sclass\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+        return classRegex.test(result)
+          ? result.replace(
+              classRegex,
+              (_match, double?: string, single?: string) =>
+                ` class="${[double ?? single, activeClass]
+                  .filter(Boolean)
+                  .join(" ")}"`
+            )
+          : addAttribute(result, `class="${activeClass}"`);
+      }
+    )
+  );
+}
@@ -0,0 +1,235 @@
+import { processHtmlImports } from "./html-imports.js";
+import { frontMatterHead, parseFrontMatter } from "./front-matter.js";
+import { injectIntoDocument, renderLayout } from "./layouts.js";
+import { renderSeoTags, resolvePageSeo } from "./seo.js";
+import {
+  escapeHtml,
+  interpolate,
+  removeVerbatimMarkers,
+  renderTemplateSource,
+} from "./template.js";
+import { protectMarkdownCode, renderMarkdown } from "./markdown.js";
+import { markActiveLinks } from "./navigation.js";
+import { renderHreflangTags, renderLocaleSwitcher, translate } from "./i18n.js";
+import type { PageLocale } from "./i18n.js";
+import type { PageFrontMatter } from "./front-matter.js";
+import type { ImportAliases, ImportDiagnostic } from "./html-imports.js";
+import type { TemplateScope } from "./template.js";
+import type { StaticKitConfig } from "../types.js";
+
+export interface PageAssets {
+  head?: string[];
+  body?: string[];
+}
+
+export interface RenderPageOptions {
+  pageName: string; // e.g. "about" or "blog/post-1"
+  sourceDir: string; // directory relative imports resolve from
+  sourceFile?: string; // page file, where import diagnostics start
+  diagnostics?: ImportDiagnostic[]; // collects failed imports instead of warning
+  dependencies?: Set<string>; // collects the layout and imported files
+  importMarkers?: boolean; // mark imported content for in-place dev updates
+  aliases?: ImportAliases; // import prefixes, see resolveImportAliases
+  layoutsDir: string;
+  config: StaticKitConfig;
+  assetBase: string; // prefix that replaces /public/, /images/ and /fonts/
+  urlPath?: string; // public URL path of the page, used for the canonical URL
+  currentPath?: string; // page path navigation links match, see getPagePath
+  locale?: PageLocale; // translations and alternates when the site uses i18n
+  scope?: TemplateScope; // page values besides the front matter, e.g. a collection item
+  globals?: TemplateScope; // values every template sees, imports and layout too (`data`, `env`)
+  markdown?: boolean; // the page body is Markdown (`.md` pages)
+  assets?: PageAssets; // tags injected after the page is rendered
+  cacheBust?: string; // appended as ?v= to sprite references
+  useLayout?: boolean;
+}
+
+/**
+ * Normalize asset paths: Convert absolute paths to use the asset base
+ * Transform /public/images/... → public/images/... (based on the base)
+ * Transform /images/... → public/images/... (shorthand syntax)
+ * This ensures all asset references work with the custom build structure
+ */
+function rewriteAssetPaths(
+  html: string,
+  assetBase: string,
+  cacheBust?: string
+): string {
+  const spriteQuery = cacheBust ? `?v=${cacheBust}` : "";
+
+  return html
+    .replace(
+      /<use href="\/sprite\.svg/g,
+      `<use href="${assetBase}images/sprite.svg${spriteQuery}`
+    )
+    .replace(/(src|href)="\/public\//g, `$1="${assetBase}`)
+    .replace(/(src|href)="\/(images|fonts)\//g, `$1="${assetBase}$2/`);
+}
+
+/**
+ * Built-in document shell for pages without a layout
+ */
+function generateDocumentShell(
+  pageName: string,
+  content: string,
+  frontMatter: PageFrontMatter,
+  language: string
+): string {
+  const headTags = [
+    frontMatter.description
+      ? `<meta name="description" content="${escapeHtml(
+          frontMatter.description
+        )}">`
+      : "",
+    frontMatterHead(frontMatter),
+  ]
+    .filter(Boolean)
+    .map((tag) => `\n  ${tag}`)
+    .join("");
+  const bodyClass = frontMatter.bodyClass
+    ? ` class="${escapeHtml(frontMatter.bodyClass)}"`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(frontMatter.title ?? pageName)}</title>${headTags}
+</head>
+<body${bodyClass}>
+${content}
+</body>
+</html>`;
+}
+
+/**
+ * Render a page source into a full HTML document
+ * Pipeline: front matter → expressions → Markdown → imports → layout →
+ * translations → asset rewrites → asset tags
+ * Shared by the dev preview and the build so both produce the same markup
+ */
+export async function renderPage(
+  source: string,
+  options: RenderPageOptions
+): Promise<string> {
+  const {
+    pageName,
+    sourceDir,
+    sourceFile,
+    diagnostics,
+    dependencies,
+    importMarkers = false,
+    aliases,
+    layoutsDir,
+    config,
+    assetBase,
+    urlPath,
+    currentPath,
+    locale,
+    scope = {},
+    globals = {},
+    markdown = false,
+    assets = {},
+    cacheBust,
+    useLayout = true,
+  } = options;
+  const language = locale?.locale || config.templates?.language || "en";
+
+  // Text fields of the front matter can use the scope too, so a collection
+  // page can set `title: "{{ post.title }}"`
+  const parsed = parseFrontMatter(source);
+  const data: PageFrontMatter = { ...parsed.data };
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value === "string") {
+      data[key] = interpolate(
+        value,
+        { ...globals, ...parsed.data, ...scope },
+        { escape: false }
+      );
+    }
+  }
+  // Components and layouts can test the page path too (`@if: currentPath == "/"`)
+  const templateGlobals = { ...globals, currentPath };
+  const templateScope = { ...templateGlobals, ...data, ...scope };
+
+  // Code in Markdown shows expressions as written, and expressions naming
+  // nothing in scope may be meant for client-side frameworks
+  // (`{{ message }}` in Vue or Alpine), so they stay as written too
+  const code = markdown ? protectMarkdownCode(parsed.body) : null;
+  const body = renderTemplateSource(
+    code?.text ?? parsed.body,
+    templateScope,
+    sourceFile ?? pageName,
+    { keepUnknown: true }
+  );
+  const content = (
+    await processHtmlImports(
+      code ? renderMarkdown(code.restore(body)) : body,
+      sourceDir,
+      undefined,
+      {
+        file: sourceFile,
+        diagnostics,
+        dependencies,
+        markers: importMarkers,
+        aliases,
+        globals: templateGlobals,
+      }
+    )
+  ).trim();
+
+  // Layouts and the shell see the merged title and description
+  const seo = resolvePageSeo(data, config, pageName, urlPath);
+  const frontMatter: PageFrontMatter = {
+    ...data,
+    title: seo.title,
+    description: seo.description,
+  };
+
+  const layoutHtml = useLayout
+    ? await renderLayout(
+        content,
+        { ...frontMatter, ...scope },
+        {
+          layoutsDir,
+          pageName,
+          language,
+          diagnostics,
+          dependencies,
+          aliases,
+          globals: templateGlobals,
+        }
+      )
+    : null;
+  const documentHtml =
+    layoutHtml ??
+    generateDocumentShell(pageName, content, frontMatter, language);
+
+  // Navigation is usually in a layout or component, so links are marked
+  // once the whole document is rendered
+  const navigationHtml = currentPath
+    ? markActiveLinks(documentHtml, currentPath, config.templates?.activeClass)
+    : documentHtml;
+
+  // Translations run last, so pages, components and layouts share them
+  const localizedHtml = locale
+    ? renderLocaleSwitcher(translate(navigationHtml, locale), locale)
+    : navigationHtml;
+
+  const seoHtml = injectIntoDocument(localizedHtml, {
+    head: [
+      ...renderSeoTags(seo, config),
+      // Search engines only accept absolute hreflang URLs
+      ...(locale && config.site?.url ? renderHreflangTags(locale) : []),
+    ].join("\n  "),
+  });
+
+  return injectIntoDocument(
+    removeVerbatimMarkers(rewriteAssetPaths(seoHtml, assetBase, cacheBust)),
+    {
+      head: assets.head?.join("\n  "),
+      body: assets.body?.join("\n  "),
+    }
+  );
+}
@@ -0,0 +1,102 @@
+import { normalizeBase } from "./config.js";
+import { toAbsoluteUrl } from "./sitemap.js";
+import type { PageFrontMatter } from "./front-matter.js";
+import type { StaticKitConfig } from "../types.js";
+
+export interface PageSeo {
+  title: string;
+  description?: string;
+  image?: string; // absolute when site.url is set
+  canonical?: string;
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}
+
+/**
+ * Resolve an asset path the way pages write it (`/images/og.png`,
+ * `/public/images/og.png`) to its URL on the deployed site
+ */
+function resolveAssetUrl(assetPath: string, config: StaticKitConfig) {
+  const siteUrl = config.site?.url;
+  if (!siteUrl || !assetPath.startsWith("/")) {
+    return assetPath;
+  }
+
+  const base = normalizeBase(config.build?.base);
+  const builtPath = assetPath
+    .replace(/^\/public\//, `/${base}`)
+    .replace(/^\/(images|fonts)\//, `/${base}$1/`);
+  return toAbsoluteUrl(siteUrl, builtPath);
+}
+
+/**
+ * Merge the site-wide SEO defaults with a page's front matter
+ * The title template (`%s | Brand`) is applied to every page title
+ */
+export function resolvePageSeo(
+  frontMatter: PageFrontMatter,
+  config: StaticKitConfig,
+  pageName: string,
+  urlPath?: string
+): PageSeo {
+  const site = config.site ?? {};
+  const pageTitle = frontMatter.title ?? pageName;
+  const image = frontMatter.image ?? site.image;
+
+  return {
+    title: site.titleTemplate
+      ? site.titleTemplate.replace("%s", () => pageTitle)
+      : pageTitle,
+    description: frontMatter.description ?? site.description,
+    image: image ? resolveAssetUrl(image, config) : undefined,
+    canonical:
+      site.url && urlPath ? toAbsoluteUrl(site.url, urlPath) : undefined,
+  };
+}
+
+/**
+ * Canonical link, Open Graph, Twitter card, theme-color and favicon tags
+ * Social tags are only emitted once the site is configured in `site`
+ */
+export function renderSeoTags(seo: PageSeo, config: StaticKitConfig): string[] {
+  const site = config.site;
+  if (!site) return [];
+
+  const meta = (attribute: "name" | "property", key: string, value?: string) =>
+    value
+      ? `<meta ${attribute}="${key}" content="${escapeAttribute(value)}">`
+      : "";
+
+  const tags = [
+    seo.canonical
+      ? `<link rel="canonical" href="${escapeAttribute(seo.canonical)}">`
+      : "",
+    meta("property", "og:type", "website"),
+    meta("property", "og:title", seo.title),
+    meta("property", "og:description", seo.description),
+    meta("property", "og:url", seo.canonical),
+    meta("property", "og:image", seo.image),
+    meta("property", "og:site_name", site.name),
+    meta("name", "twitter:card", seo.image ? "summary_large_image" : "summary"),
+    meta("name", "twitter:site", site.twitter),
+    meta("name", "twitter:title", seo.title),
+    meta("name", "twitter:description", seo.description),
+    meta("name", "twitter:image", seo.image),
+    meta("name", "theme-color", site.themeColor),
+    ...(site.favicons ?? []).map(({ href, rel = "icon", sizes, type }) =>
+      [
+        `<link rel="${rel}" href="${escapeAttribute(href)}"`,
+        sizes ? ` sizes="${sizes}"` : "",
+        type ? ` type="${type}"` : "",
+        ">",
+      ].join("")
+    ),
+  ];
+
+  return tags.filter(Boolean);
+}
@@ -0,0 +1,270 @@
+import type { BuildTarget, HeaderRule, RedirectRule } from "../types.js";
+
+export interface ServerConfigOptions {
+  target: BuildTarget;
+  pages: string[]; // page names, e.g. "about" or "blog/post-1"
+  redirects?: RedirectRule[];
+  headers?: HeaderRule[];
+}
+
+/** Page served for unknown URLs, `src/pages/404.html` */
+export const NOT_FOUND_PAGE = "404";
+
+/**
+ * Output file name of a page for the given target
+ * The "static" target nests pages in folders (`about/index.html`) so clean
+ * URLs work on hosts that can't be configured
+ * The 404 page always stays at `404.html`, where static hosts look for it
+ */
+export function getPageOutputPath(pageName: string, target: BuildTarget) {
+  if (
+    target !== "static" ||
+    pageName === "index" ||
+    pageName.endsWith("/index") ||
+    pageName === NOT_FOUND_PAGE
+  ) {
+    return `${pageName}.html`;
+  }
+  return `${pageName}/index.html`;
+}
+
+/**
+ * Turn a `/blog/*` style path into a regex body (without anchors)
+ * The `*` becomes a capture group that `:splat` in the target refers to
+ */
+function pathToRegex(pattern: string): string {
+  return pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join("(.*)");
+}
+
+/**
+ * Public URL path of a page, e.g. `/`, `/about` or `/blog/` for `blog/index`
+ * Folder-based pages of the "static" target get a trailing slash
+ */
+export function getPageUrlPath(pageName: string, target: BuildTarget) {
+  if (pageName === "index") return "/";
+  if (pageName.endsWith("/index"))
+    return `/${pageName.slice(0, -"index".length)}`;
+  return target === "static" ? `/${pageName}/` : `/${pageName}`;
+}
+
+function apacheConfig(
+  redirects: RedirectRule[],
+  headers: HeaderRule[],
+  hasNotFoundPage: boolean
+) {
+  const lines = ["DirectoryIndex index.html"];
+  if (hasNotFoundPage) {
+    lines.push(`ErrorDocument 404 /${NOT_FOUND_PAGE}.html`);
+  }
+  lines.push("RewriteEngine On");
+
+  // Redirects go first so they win over the clean URL rewrite
+  for (const { from, to, status = 301 } of redirects) {
+    lines.push(
+      `RewriteRule ^${pathToRegex(from.replace(/^\//, ""))}$ ${to.replace(
+        ":splat",
+        "$1"
+      )} [R=${status},L]`
+    );
+  }
+
+  lines.push(
+    "RewriteCond %{REQUEST_FILENAME} !-f",
+    "RewriteCond %{REQUEST_FILENAME} !-d",
+    "RewriteRule ^([^.]+)$ $1.html [L]"
+  );
+
+  for (const { path, values } of headers) {
+    const headerLines = Object.entries(values).map(
+      ([name, value]) => `Header set ${name} "${value.replace(/"/g, '\\"')}"`
+    );
+    if (path === "/*") {
+      lines.push("", ...headerLines);
+    } else {
+      lines.push(
+        "",
+        `<If "%{REQUEST_URI} =~ m#^${pathToRegex(path)}$#">`,
+        ...headerLines.map((line) => `  ${line}`),
+        "</If>"
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function nginxConfig(
+  redirects: RedirectRule[],
+  headers: HeaderRule[],
+  hasNotFoundPage: boolean
+) {
+  const cleanUrls = "try_files $uri $uri.html $uri/ =404;";
+  const lines = [
+    "# Include inside the server { } block of the site",
+    "index index.html;",
+  ];
+  if (hasNotFoundPage) {
+    lines.push(`error_page 404 /${NOT_FOUND_PAGE}.html;`);
+  }
+
+  if (redirects.length > 0) {
+    lines.push("");
+  }
+  for (const { from, to, status = 301 } of redirects) {
+    lines.push(
+      from.includes("*")
+        ? `location ~ ^${pathToRegex(from)}$ { return ${status} ${to.replace(
+            ":splat",
+            "$1"
+          )}; }`
+        : `location = ${from} { return ${status} ${to}; }`
+    );
+  }
+
+  // nginx picks a single location per request, so only the first header
+  // rule matching a path applies, everything else falls back to `location /`
+  // A location with its own add_header drops every server-level one, so the
+  // site-wide `/*` headers are repeated inside each header location
+  const headerLines = (values: Record<string, string>) =>
+    Object.entries(values).map(
+      ([name, value]) =>
+        `  add_header ${name} "${value.replace(/"/g, '\\"')}" always;`
+    );
+  const siteWideValues: Record<string, string> = {};
+  for (const { path, values } of headers) {
+    if (path === "/*") Object.assign(siteWideValues, values);
+  }
+
+  for (const { path, values } of headers) {
+    if (path === "/*") {
+      lines.push("", ...headerLines(values).map((line) => line.trim()));
+    } else {
+      lines.push(
+        "",
+        `location ~ ^${pathToRegex(path)}$ {`,
+        ...headerLines({ ...siteWideValues, ...values }),
+        `  ${cleanUrls}`,
+        "}"
+      );
+    }
+  }
+
+  lines.push("", "location / {", `  ${cleanUrls}`, "}");
+
+  return lines.join("\n");
+}
+
+function netlifyRedirects(pages: string[], redirects: RedirectRule[]) {
+  const lines = redirects.map(
+    ({ from, to, status = 301 }) => `${from}  ${to}  ${status}`
+  );
+
+  // Netlify serves clean URLs on its own, explicit rewrites also cover
+  // hosts reading the same file format (e.g. Cloudflare Pages)
+  // 404.html is picked up automatically and must not answer with a 200
+  lines.push(
+    ...pages
+      .filter(
+        (page) =>
+          page !== "index" &&
+          !page.endsWith("/index") &&
+          page !== NOT_FOUND_PAGE
+      )
+      .sort()
+      .map((page) => `/${page}  /${page}.html  200`)
+  );
+
+  return lines.join("\n");
+}
+
+function netlifyHeaders(headers: HeaderRule[]) {
+  return headers
+    .map(({ path, values }) =>
+      [
+        path,
+        ...Object.entries(values).map(([name, value]) => `  ${name}: ${value}`),
+      ].join("\n")
+    )
+    .join("\n\n");
+}
+
+/**
+ * Redirect page for hosts without server config, e.g. `old/index.html`
+ */
+export function redirectPage(to: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="refresh" content="0; url=${to}">
+  <link rel="canonical" href="${to}">
+  <title>Redirecting…</title>
+</head>
+<body>
+  <a href="${to}">${to}</a>
+</body>
+</html>`;
+}
+
+/**
+ * Meta refresh pages for exact redirects, except where a page is written
+ * Those would race with the page output and could replace it
+ */
+function staticRedirectPages(redirects: RedirectRule[], pages: string[]) {
+  const files: Record<string, string> = {};
+  const pageFiles = new Set(
+    pages.map((page) => getPageOutputPath(page, "static"))
+  );
+
+  for (const { from, to } of redirects) {
+    if (from.includes("*")) {
+      console.warn(
+        `⚠️  Wildcard redirect ${from} can't be expressed without server config, skipping it`
+      );
+      continue;
+    }
+    const folder = from.replace(/^\/|\/$/g, "");
+    const file = folder ? `${folder}/index.html` : "index.html";
+    if (pageFiles.has(file)) {
+      console.warn(
+        `⚠️  Redirect from ${from} would overwrite the page at ${file}, skipping it`
+      );
+      continue;
+    }
+    files[file] = redirectPage(to);
+  }
+
+  return files;
+}
+
+/**
+ * Server config files for the build target, keyed by path in the output directory
+ */
+export function generateServerConfig(
+  options: ServerConfigOptions
+): Record<string, string> {
+  const { target, pages, redirects = [], headers = [] } = options;
+  const hasNotFoundPage = pages.includes(NOT_FOUND_PAGE);
+
+  switch (target) {
+    case "apache":
+      return { ".htaccess": apacheConfig(redirects, headers, hasNotFoundPage) };
+    case "nginx":
+      return { "nginx.conf": nginxConfig(redirects, headers, hasNotFoundPage) };
+    case "netlify":
+      return {
+        _redirects: netlifyRedirects(pages, redirects),
+        ...(headers.length > 0 ? { _headers: netlifyHeaders(headers) } : {}),
+      };
+    case "static":
+      if (headers.length > 0) {
+        console.warn(
+          "⚠️  Headers need server config, they are ignored for the static build target"
+        );
+      }
+      return staticRedirectPages(redirects, pages);
+  }
+}
@@ -0,0 +1,83 @@
+import { execFile } from "child_process";
+import fs from "fs/promises";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+export interface SitemapEntry {
+  url: string; // absolute URL
+  lastmod?: string; // ISO 8601 date
+}
+
+/**
+ * Join the site URL with a page path, keeping any sub-path of the site URL
+ * (`https://example.com/docs` + `/about` → `https://example.com/docs/about`)
+ */
+export function toAbsoluteUrl(siteUrl: string, urlPath: string): string {
+  return `${siteUrl.replace(/\/+$/, "")}${urlPath}`;
+}
+
+/**
+ * Last modification date of a file: the last commit touching it when the
+ * project is a git repository, the file's mtime otherwise
+ */
+export async function getLastModified(
+  filePath: string
+): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync("git", [
+      "log",
+      "-1",
+      "--format=%cI",
+      "--",
+      filePath,
+    ]);
+    if (stdout.trim()) {
+      return stdout.trim();
+    }
+  } catch {
+    // Not a git repository or git isn't installed
+  }
+
+  try {
+    const stats = await fs.stat(filePath);
+    return stats.mtime.toISOString();
+  } catch {
+    return undefined;
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function generateSitemap(entries: SitemapEntry[]): string {
+  const urls = entries
+    .map((entry) =>
+      [
+        "  <url>",
+        `    <loc>${escapeXml(entry.url)}</loc>`,
+        ...(entry.lastmod ? [`    <lastmod>${entry.lastmod}</lastmod>`] : []),
+        "  </url>",
+      ].join("\n")
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls}
+</urlset>
+`;
+}
+
+export function generateRobotsTxt(siteUrl: string): string {
+  return `User-agent: *
+Allow: /
+
+Sitemap: ${toAbsoluteUrl(siteUrl, "/sitemap.xml")}
+`;
+}
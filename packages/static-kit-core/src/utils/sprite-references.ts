@@ -0,0 +1,104 @@
+import fs from "fs/promises";
+import path from "path";
+import { scanDirectory } from "./file-scanner.js";
+
+export interface SpriteReference {
+  id: string;
+  line: number;
+  column: number;
+}
+
+export interface SpriteReferenceIssue extends SpriteReference {
+  file: string;
+}
+
+/**
+ * Find `<use href="…sprite.svg#id">` references in an HTML string
+ * Rendered pages are expected, so prop-driven IDs are already filled in and
+ * fingerprinted sprite names (`sprite.1a2b3c4d.svg`) match too
+ * IDs still containing `{{ }}` are left to client-side code and skipped
+ */
+export function findSpriteReferences(html: string): SpriteReference[] {
+  const useRegex =
+    /<use\b[^>]*?\b(?:xlink:)?href=["'][^"'#]*sprite(?:\.[\da-f]{8})?\.svg[^"'#]*#([^"']+)["']/g;
+  const references: SpriteReference[] = [];
+
+  for (const match of html.matchAll(useRegex)) {
+    const id = match[1];
+    if (id.includes("{{")) continue;
+
+    const before = html.slice(0, match.index);
+    const lines = before.split("\n");
+    references.push({
+      id,
+      line: lines.length,
+      column: lines[lines.length - 1].length + 1,
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Sprite references of a rendered page that are not in the sprite
+ * `file` names the page in the issues, e.g. its output file or preview route
+ */
+export function findUnknownSpriteReferences(
+  html: string,
+  file: string,
+  knownIds: Set<string>
+): SpriteReferenceIssue[] {
+  return findSpriteReferences(html)
+    .filter((reference) => !knownIds.has(reference.id))
+    .map((reference) => ({ ...reference, file }));
+}
+
+/**
+ * Icon IDs listed in a sprite manifest, or null while there is no sprite
+ */
+export async function loadSpriteIds(
+  manifestPath: string
+): Promise<Set<string> | null> {
+  try {
+    const manifest: { icons: Record<string, unknown> } = JSON.parse(
+      await fs.readFile(manifestPath, "utf-8")
+    );
+    return new Set(Object.keys(manifest.icons));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check every sprite reference in the rendered HTML files of a directory,
+ * e.g. the build output, against the known icon IDs
+ */
+export async function validateSpriteReferences(
+  dir: string,
+  knownIds: Set<string>
+): Promise<SpriteReferenceIssue[]> {
+  const issues: SpriteReferenceIssue[] = [];
+  const htmlFiles = await scanDirectory(dir, [".html"]);
+
+  for (const file of htmlFiles.sort()) {
+    const filePath = path.join(dir, file);
+    const content = await fs.readFile(filePath, "utf-8");
+    issues.push(...findUnknownSpriteReferences(content, filePath, knownIds));
+  }
+
+  return issues;
+}
+
+/**
+ * Format issues as one `file:line:column` entry per line
+ */
+export function formatSpriteReferenceIssues(
+  issues: SpriteReferenceIssue[]
+): string {
+  return issues
+    .map(
+      (issue) =>
+        `  ${issue.file}:${issue.line}:${issue.column} unknown icon "#${issue.id}"`
+    )
+    .join("\n");
+}
@@ -0,0 +1,334 @@
+/**
+ * Values available to `{{ }}` expressions while rendering a template
+ */
+export type TemplateScope = Record<string, unknown>;
+
+/**
+ * Escape a value for HTML text and quoted attributes
+ * `{{` is encoded too, so later passes never read expressions from values
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+    .replace(/\{(?=\{)/g, "&#123;");
+}
+
+/**
+ * Decode the entities escapeHtml produces, so attribute values read back
+ * the text that was written into them
+ */
+function unescapeHtml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&#123;/g, "{")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Parse `key="value"` style attributes from a directive
+ * Supports double quotes, single quotes, unquoted values and bare flags
+ * Quotes inside a value can be escaped with a backslash (`"say \"hi\""`)
+ * or written as entities (`&quot;`), which is how `{{ }}` values arrive
+ */
+export function parseAttributes(source: string): Record<string, string | true> {
+  const attributes: Record<string, string | true> = {};
+  const attributeRegex =
+    /([\w-]+)(?:\s*=\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([^\s"'=<>`]+)))?/g;
+
+  for (const match of source.matchAll(attributeRegex)) {
+    const [, name, doubleQuoted, singleQuoted, unquoted] = match;
+    const quoted = doubleQuoted ?? singleQuoted;
+    if (quoted !== undefined) {
+      attributes[name] = unescapeHtml(quoted.replace(/\\(["'\\])/g, "$1"));
+    } else {
+      attributes[name] = unquoted !== undefined ? unescapeHtml(unquoted) : true;
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Look up a dotted path (e.g. `post.author.name`) in the given scope
+ */
+export function resolveScopePath(
+  scope: TemplateScope,
+  keyPath: string
+): unknown {
+  let value: unknown = scope;
+  for (const key of keyPath.split(".")) {
+    if (value === null || value === undefined || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+export interface InterpolateOptions {
+  escape?: boolean; // HTML-escape values (default), off for plain text like front matter
+  keepUnknown?: boolean; // leave expressions naming nothing in scope as they are
+}
+
+// Blocks left to the browser, e.g. for Vue or Alpine expressions
+const verbatimRegex =
+  /(<!--\s*@verbatim\s*-->[\s\S]*?<!--\s*@endverbatim\s*-->)/;
+
+/**
+ * Apply `transform` to the parts of `html` outside `@verbatim` blocks
+ */
+export function mapOutsideVerbatim(
+  html: string,
+  transform: (part: string) => string
+): string {
+  return html
+    .split(verbatimRegex)
+    .map((part, index) => (index % 2 === 1 ? part : transform(part)))
+    .join("");
+}
+
+/**
+ * Remove the `@verbatim` markers once a document is fully rendered
+ */
+export function removeVerbatimMarkers(html: string): string {
+  return html.replace(/<!--\s*@(?:end)?verbatim\s*-->/g, "");
+}
+
+/**
+ * Replace `{{ name }}` and `{{ name ?? "fallback" }}` expressions
+ * Values are HTML-escaped, `{{{ name }}}` prints trusted HTML as it is
+ * Missing values without a fallback render as an empty string, or stay
+ * untouched with `keepUnknown` when their first key isn't in scope at all
+ * Content between `<!-- @verbatim -->` and `<!-- @endverbatim -->` is skipped
+ */
+export function interpolate(
+  html: string,
+  scope: TemplateScope,
+  options: InterpolateOptions = {}
+): string {
+  const { escape = true, keepUnknown = false } = options;
+  const expressionRegex =
+    /\{\{(\{?)\s*([\w-]+(?:\.[\w-]+)*)\s*(?:\?\?\s*(?:"([^"]*)"|'([^']*)'))?\s*\}\}(\}?)/g;
+
+  const render = (
+    match: string,
+    rawOpen: string,
+    keyPath: string,
+    doubleQuoted: string | undefined,
+    singleQuoted: string | undefined,
+    rawClose: string
+  ) => {
+    // A lone third brace belongs to the surrounding text
+    const raw = Boolean(rawOpen && rawClose);
+    const before = raw ? "" : rawOpen;
+    const after = raw ? "" : rawClose;
+    const fallback = doubleQuoted ?? singleQuoted;
+
+    const value = resolveScopePath(scope, keyPath);
+    if (value === undefined || value === null || value === "") {
+      if (
+        keepUnknown &&
+        fallback === undefined &&
+        !(keyPath.split(".")[0] in scope)
+      ) {
+        return match;
+      }
+      return `${before}${fallback ?? ""}${after}`;
+    }
+    const text = String(value);
+    return `${before}${raw || !escape ? text : escapeHtml(text)}${after}`;
+  };
+
+  return mapOutsideVerbatim(html, (part) =>
+    part.replace(expressionRegex, render)
+  );
+}
+
+interface DirectiveBlock {
+  directive: "if" | "each";
+  expression: string;
+  children: DirectiveNode[];
+  alternate?: DirectiveNode[]; // content after `@else`
+}
+
+type DirectiveNode = string | DirectiveBlock;
+
+// `@verbatim` blocks are matched too, so directives inside them are kept
+const directiveRegex =
+  /<!--\s*@verbatim\s*-->[\s\S]*?<!--\s*@endverbatim\s*-->|<!--\s*@(if|else|endif|each|endeach)\b(?:\s*:)?\s*([\s\S]*?)\s*-->/g;
+
+/**
+ * Split a template into text and nested `@if` / `@each` blocks
+ * Stray closing directives are kept as text, unclosed blocks end with the file
+ */
+function parseDirectives(html: string, file: string): DirectiveNode[] {
+  const root: DirectiveNode[] = [];
+  const stack: DirectiveBlock[] = [];
+  let nodes = root;
+  let cursor = 0;
+
+  for (const match of html.matchAll(directiveRegex)) {
+    const [tag, name, expression] = match;
+    const open = stack[stack.length - 1];
+    nodes.push(html.slice(cursor, match.index));
+    cursor = (match.index ?? 0) + tag.length;
+
+    if (!name) {
+      nodes.push(tag);
+    } else if (name === "if" || name === "each") {
+      const block: DirectiveBlock = {
+        directive: name,
+        expression,
+        children: [],
+      };
+      nodes.push(block);
+      stack.push(block);
+      nodes = block.children;
+    } else if (name === "else" && open?.directive === "if" && !open.alternate) {
+      open.alternate = [];
+      nodes = open.alternate;
+    } else if (
+      (name === "endif" && open?.directive === "if") ||
+      (name === "endeach" && open?.directive === "each")
+    ) {
+      stack.pop();
+      const parent = stack[stack.length - 1];
+      nodes = parent ? (parent.alternate ?? parent.children) : root;
+    } else {
+      console.warn(`⚠️  Unexpected ${tag} in ${file}`);
+      nodes.push(tag);
+    }
+  }
+  nodes.push(html.slice(cursor));
+
+  for (const block of stack) {
+    console.warn(
+      `⚠️  Missing <!-- @end${block.directive} --> for @${block.directive}: ${block.expression} in ${file}`
+    );
+  }
+
+  return root;
+}
+
+/**
+ * Evaluate an `@if` condition: `banner`, `!banner`, `env.MODE == "staging"`
+ * or `post.draft != true`
+ * Empty strings and empty lists count as false
+ */
+export function evaluateCondition(
+  expression: string,
+  scope: TemplateScope
+): boolean {
+  const match =
+    /^(!)?\s*([\w-]+(?:\.[\w-]+)*)(?:\s*(==|!=)\s*(?:"([^"]*)"|'([^']*)'|([\w.-]+)))?$/.exec(
+      expression.trim()
+    );
+  if (!match) {
+    console.warn(`⚠️  Can't evaluate @if: ${expression}`);
+    return false;
+  }
+
+  const [, negate, keyPath, operator, doubleQuoted, singleQuoted, bare] = match;
+  const value = resolveScopePath(scope, keyPath);
+
+  let result: boolean;
+  if (operator) {
+    const equal =
+      String(value ?? "") === (doubleQuoted ?? singleQuoted ?? bare);
+    result = operator === "==" ? equal : !equal;
+  } else {
+    result = Array.isArray(value) ? value.length > 0 : Boolean(value);
+  }
+
+  return negate ? !result : result;
+}
+
+function renderDirectiveNodes(
+  nodes: DirectiveNode[],
+  scope: TemplateScope,
+  file: string,
+  options: InterpolateOptions
+): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === "string") {
+        return interpolate(node, scope, options);
+      }
+
+      if (node.directive === "if") {
+        return renderDirectiveNodes(
+          evaluateCondition(node.expression, scope)
+            ? node.children
+            : (node.alternate ?? []),
+          scope,
+          file,
+          options
+        );
+      }
+
+      // `@each: post in data.posts` or `@each: post, index in data.posts`
+      const match =
+        /^([\w-]+)(?:\s*,\s*([\w-]+))?\s+in\s+([\w-]+(?:\.[\w-]+)*)$/.exec(
+          node.expression.trim()
+        );
+      if (!match) {
+        console.warn(`⚠️  Can't evaluate @each: ${node.expression} in ${file}`);
+        return "";
+      }
+
+      const [, alias, indexAlias, keyPath] = match;
+      const items = resolveScopePath(scope, keyPath);
+      if (!Array.isArray(items)) {
+        console.warn(`⚠️  @each: "${keyPath}" is not a list in ${file}`);
+        return "";
+      }
+
+      return items
+        .map((item, index) =>
+          renderDirectiveNodes(
+            node.children,
+            {
+              ...scope,
+              [alias]: item,
+              ...(indexAlias ? { [indexAlias]: index } : {}),
+            },
+            file,
+            options
+          )
+        )
+        .join("");
+    })
+    .join("");
+}
+
+/**
+ * Render `<!-- @if: condition -->` / `<!-- @else -->` / `<!-- @endif -->`,
+ * `<!-- @each: item in list -->` / `<!-- @endeach -->` blocks and the
+ * `{{ }}` expressions around and inside them, `file` names the template in
+ * warnings
+ * Every piece of text is interpolated once with its own scope, so values
+ * containing `{{ }}` are never evaluated themselves
+ */
+export function renderTemplateSource(
+  html: string,
+  scope: TemplateScope,
+  file = "template",
+  options: InterpolateOptions = {}
+): string {
+  if (!/<!--\s*@(if|each)\b/.test(html)) {
+    return interpolate(html, scope, options);
+  }
+  return renderDirectiveNodes(
+    parseDirectives(html, file),
+    scope,
+    file,
+    options
+  );
+}
@@ -16,7 +16,11 @@ export function createStaticKitConfig(
     config: userProvidedConfig,
     pagesDir = "src/pages",
     componentsDir = "src/components",
+    layoutsDir = "src/layouts",
+    dataDir = "src/data",
+    aliases = {},
     iconsDir = "src/icons",
+    svgSprite = {},
     stylesEntry = "src/styles/main.scss",
     jsEntry = "src/js",
     publicDir = "public",
@@ -27,6 +31,7 @@ export function createStaticKitConfig(
     // Load config from file system if not provided
     const config = userProvidedConfig || (await loadStaticKitConfig());
     const normalizedBase = normalizeBase(config.build?.base);
+    const importAliases = { "@components/": componentsDir, ...aliases };
 
     // Conditionally load Tailwind plugin
     const tailwindPlugins: Plugin[] = [];
@@ -49,9 +54,16 @@ export function createStaticKitConfig(
           pagesPreviewPlugin({
             pagesDir,
             componentsDir,
+            layoutsDir,
+            dataDir,
+            aliases: importAliases,
             stylesEntry,
+            jsDir: jsEntry,
+            spritePath: `${publicDir}/images/sprite.svg`,
+            config,
           }),
           ...svgSpritePlugin({
+            ...svgSprite,
             iconsDir,
             outputPath: `${publicDir}/images/sprite.svg`,
             publicPath: normalizedBase,
@@ -82,7 +94,16 @@ export function createStaticKitConfig(
               return `${normalizedBase}[name].js`;
             },
             assetFileNames: (assetInfo: any) => {
-              if (assetInfo.name?.endsWith(".css")) {
+              // Page-specific styles keep their path under css/pages/
+              if (assetInfo.name?.startsWith("styles/pages/")) {
+                return `${normalizedBase}css/pages/${assetInfo.name.replace(
+                  /^styles\/pages\//,
+                  ""
+                )}`;
+              }
+              // Only the main styles entry, stylesheets linked from pages
+              // are bundled under assets/ like other files
+              if (assetInfo.name === "main.css") {
                 return `${normalizedBase}css/styles.css`;
               }
               if (assetInfo.name === "sprite.svg") {
@@ -106,14 +127,22 @@ export function createStaticKitConfig(
       plugins: [
         ...tailwindPlugins,
         ...svgSpritePlugin({
+          ...svgSprite,
           iconsDir,
           outputPath: `dist/${normalizedBase}images/sprite.svg`,
           publicPath: normalizedBase,
+          outDir: config.build?.output || "dist",
+          strict: config.build?.strict,
         }),
         ...buildPlugins({
           config,
+          pagesDir,
+          dataDir,
+          aliases: importAliases,
           publicDir,
           jsDir: jsEntry,
+          stylesEntry,
+          layoutsDir,
         }),
       ],
     };